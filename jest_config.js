@@ -1,3 +1,6 @@
+// Tests run west of UTC, where reading a local date as UTC midnight lands on the day before
+process.env.TZ = 'America/Chicago';
+
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
@@ -0,0 +1,200 @@
+import { SemanticMapper } from './semantic_mapper';
+import { Filter, Measure, QueryPlan, RangeFilter } from './query_plan';
+import { ComparisonResult } from './query_service';
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const AGGREGATE_WORDS: { [aggregate: string]: string } = {
+  avg: 'Average',
+  sum: 'Total',
+  max: 'Maximum',
+  min: 'Minimum'
+};
+
+/**
+ * Turns a query plan and its rows into a one-sentence answer from templates, naming the
+ * metric, its unit and the filters and dates the question resolved to:
+ * "Average ride time for trips from Congress Avenue in June 2025 was 25 minutes."
+ */
+export class AnswerGenerator {
+  private semanticMapper: SemanticMapper;
+
+  constructor(semanticMapper: SemanticMapper) {
+    this.semanticMapper = semanticMapper;
+  }
+
+  // Null when there is nothing to say, e.g. SQL without a plan
+  answer(plan: QueryPlan | undefined, rows: any[], totalCount: number, comparison?: ComparisonResult): string | null {
+    if (!plan) return null;
+
+    const fact = this.semanticMapper.getSemanticModel().fact_table;
+    const filters = this.describeFilters(plan.filters);
+
+    if (plan.measures.length === 0) {
+      return `Found ${formatNumber(totalCount)} ${fact}${filters}.`;
+    }
+
+    const measure = plan.measures[0];
+    const metric = this.describeMetric(measure, plan);
+
+    if (comparison) {
+      const [first, second] = comparison.cohorts;
+      let sentence = `${metric} was ${this.value(first.value, measure)} for ${first.label}`
+        + ` and ${this.value(second.value, measure)} for ${second.label}`;
+      if (comparison.percentDifference !== null && comparison.percentDifference !== 0) {
+        sentence += `, ${Math.abs(comparison.percentDifference)}% ${comparison.percentDifference > 0 ? 'higher' : 'lower'}`;
+      }
+      return sentence + '.';
+    }
+
+    if (rows.length === 0) {
+      return `No ${fact} matched${filters}.`;
+    }
+
+    if (plan.dimensions.length === 0) {
+      // Aggregates other than COUNT are NULL over no rows
+      const value = rows[0][measure.alias];
+      if (value === null || value === undefined) {
+        return `No ${fact} matched${filters}.`;
+      }
+      return `${metric}${filters} was ${this.value(value, measure)}.`;
+    }
+
+    // Groups: name the largest and smallest, or the one asked for
+    const ascending = plan.orderBy[0]?.alias === measure.alias && plan.orderBy[0].direction === 'ASC';
+    const sorted = [...rows]
+      .filter(row => row[measure.alias] !== null && row[measure.alias] !== undefined)
+      .sort((a, b) => Number(b[measure.alias]) - Number(a[measure.alias]));
+    if (sorted.length === 0) {
+      return `No ${fact} matched${filters}.`;
+    }
+
+    // Every dimension of the group, e.g. "start station Congress Avenue and end station Zilker Park"
+    const values = (row: any) => plan.dimensions.map(d => `${humanize(d.alias)} ${formatLabel(row[d.alias])}`);
+    const label = (row: any) => values(row).join(' and ');
+    const describe = (row: any) => `${values(row).join(', ')} (${this.value(row[measure.alias], measure)})`;
+    const [highest, lowest] = [sorted[0], sorted[sorted.length - 1]];
+
+    if (sorted.length === 1) {
+      return `${capitalize(label(highest))} had the ${ascending ? 'lowest' : 'highest'} ${lowerFirst(metric)}${filters}, at ${this.value(highest[measure.alias], measure)}.`;
+    }
+    return `${metric}${filters} was highest for ${describe(highest)} and lowest for ${describe(lowest)}, across ${sorted.length} groups.`;
+  }
+
+  // "Average ride time", "Number of trips", from the metric's description when it has one
+  private describeMetric(measure: Measure, plan: QueryPlan): string {
+    const name = measure.metric || (plan.comparison ? plan.comparison.metric : measure.alias);
+    const definition = this.semanticMapper.getSemanticModel().metrics[name];
+    const fact = this.semanticMapper.getSemanticModel().fact_table;
+
+    // "Ride time in minutes" becomes "ride time"; the unit goes after the value
+    const description = definition?.description
+      ? definition.description.replace(/\s+in\s+\w+$/i, '')
+      : humanize(name);
+
+    if (measure.aggregate === 'count' || !measure.aggregate) {
+      return capitalize(description);
+    }
+    const subject = `${AGGREGATE_WORDS[measure.aggregate]} ${lowerFirst(description)}`;
+    // Filters describe the rows, so they need a noun to hang on unless the metric counts them
+    return plan.filters.some(f => f.field !== 'date' && f.field !== 'cohort') ? `${subject} for ${fact}` : subject;
+  }
+
+  private describeFilters(filters: Filter[]): string {
+    const model = this.semanticMapper.getSemanticModel();
+    const phrases: string[] = [];
+    let dates = '';
+
+    for (const filter of filters) {
+      if (filter.kind === 'any' && filter.field === 'date') {
+        dates = describeDates(filter.filters.filter((f): f is RangeFilter => f.kind === 'range'));
+        continue;
+      }
+      if (filter.kind !== 'comparison') continue;
+
+      const segment = Object.entries(model.segments).find(([, s]) =>
+        s.field === filter.field && s.operator === filter.operator && s.value === filter.value);
+      if (segment) {
+        phrases.push(segment[1].phrase || `with ${humanize(filter.field)} ${segment[0]}`);
+        continue;
+      }
+
+      // Values of a joined role read with the words that introduce them, e.g. "from Congress Avenue"
+      const value = String(filter.value).replace(/%/g, '');
+      const join = model.joins.find(j => j.role && filter.field.startsWith(`${j.role}_`) && j.value_prefixes?.length);
+      phrases.push(join ? `${join.value_prefixes![0]} ${value}` : `with ${humanize(filter.field)} ${value}`);
+    }
+
+    return [...phrases, dates].filter(Boolean).map(phrase => ` ${phrase}`).join('');
+  }
+
+  private value(value: any, measure: Measure): string {
+    if (value === null || value === undefined) return 'unknown';
+    const text = formatNumber(Number(value), measure.precision);
+    return measure.unit ? `${text} ${measure.unit}` : text;
+  }
+}
+
+// Ranges come as "2025-06-01 00:00:00" to "2025-06-30 23:59:59"
+function describeDates(ranges: RangeFilter[]): string {
+  if (ranges.length === 0) return '';
+  if (ranges.length > 2) {
+    const first = parseDay(ranges[0].from);
+    const last = parseDay(ranges[ranges.length - 1].to);
+    return `on ${ranges.length} periods between ${formatDay(first, first.year !== last.year)} and ${formatDay(last, true)}`;
+  }
+  return ranges.map(range => describeRange(range)).join(' and ');
+}
+
+function describeRange(range: RangeFilter): string {
+  const from = parseDay(range.from);
+  const to = parseDay(range.to);
+
+  if (from.year === to.year && from.month === 0 && from.day === 1 && to.month === 11 && to.day === 31) {
+    return `in ${from.year}`;
+  }
+  if (from.year === to.year && from.month === to.month && from.day === 1 && to.day === daysInMonth(to.year, to.month)) {
+    return `in ${MONTHS[from.month]} ${from.year}`;
+  }
+  if (from.year === to.year && from.month === to.month && from.day === to.day) {
+    return `on ${formatDay(from, true)}`;
+  }
+  return `from ${formatDay(from, from.year !== to.year)} to ${formatDay(to, true)}`;
+}
+
+function parseDay(timestamp: string | number): { year: number; month: number; day: number } {
+  const [year, month, day] = String(timestamp).slice(0, 10).split('-').map(Number);
+  return { year, month: month - 1, day };
+}
+
+function formatDay(date: { year: number; month: number; day: number }, withYear: boolean): string {
+  return `${MONTHS[date.month]} ${date.day}${withYear ? `, ${date.year}` : ''}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function formatNumber(value: number, precision?: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: precision ?? 2 });
+}
+
+function formatLabel(value: any): string {
+  // pg reads DATE as local midnight
+  if (value instanceof Date) {
+    return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+  }
+  return value === null || value === undefined ? 'unknown' : String(value);
+}
+
+function humanize(name: string): string {
+  return name.replace(/_/g, ' ');
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
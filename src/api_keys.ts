@@ -0,0 +1,174 @@
+import fs from 'fs';
+import { createHash, randomBytes } from 'crypto';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // SHA-256 of the key, hex; the key itself is shown once, when created
+  hash: string;
+  createdAt: string;
+  revokedAt: string | null;
+  // Queries per rolling minute and per UTC day
+  ratePerMinute: number;
+  dailyQuota: number;
+}
+
+export interface ApiKeyLimits {
+  ratePerMinute?: number;
+  dailyQuota?: number;
+}
+
+export const DEFAULT_RATE_PER_MINUTE = 30;
+export const DEFAULT_DAILY_QUOTA = 1000;
+
+const KEY_PREFIX = 'bsa_';
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * API keys kept in a local JSON file, by the SHA-256 of each key. Keys are random, so a
+ * plain hash is enough to keep a copy of the file from being used to query.
+ *
+ * The file is read on first use, and again when it changes, so keys created or revoked
+ * with `npm run keys` apply to a running server. A malformed file throws from the method
+ * reading it, not from the constructor.
+ */
+export class ApiKeyStore {
+  private path: string;
+  private keys: ApiKey[] = [];
+  private byHash: Map<string, ApiKey> = new Map();
+  // Of the file as last read; saves replace it, so its inode changes even within a clock tick
+  private loadedVersion = '';
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  list(): ApiKey[] {
+    this.refresh();
+    return this.keys;
+  }
+
+  // The key matching `key`, unless unknown or revoked
+  verify(key: string): ApiKey | null {
+    this.refresh();
+    if (!key.startsWith(KEY_PREFIX)) return null;
+    const apiKey = this.byHash.get(hashApiKey(key));
+    return apiKey && !apiKey.revokedAt ? apiKey : null;
+  }
+
+  // A new key, returned in full only here
+  create(name: string, limits: ApiKeyLimits = {}): { key: string; apiKey: ApiKey } {
+    this.refresh();
+    const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+    const apiKey: ApiKey = {
+      id: randomBytes(4).toString('hex'),
+      name,
+      hash: hashApiKey(key),
+      createdAt: new Date().toISOString(),
+      revokedAt: null,
+      ratePerMinute: limits.ratePerMinute ?? DEFAULT_RATE_PER_MINUTE,
+      dailyQuota: limits.dailyQuota ?? DEFAULT_DAILY_QUOTA
+    };
+    this.save([...this.keys, apiKey]);
+    return { key, apiKey };
+  }
+
+  // Revokes the key with the ID or name; false when there is none
+  revoke(idOrName: string): boolean {
+    this.refresh();
+    const matching = this.keys.filter(k => !k.revokedAt && (k.id === idOrName || k.name === idOrName));
+    if (matching.length === 0) return false;
+    const revokedAt = new Date().toISOString();
+    this.save(this.keys.map(k => matching.includes(k) ? { ...k, revokedAt } : k));
+    return true;
+  }
+
+  private refresh(): void {
+    let version: string;
+    try {
+      version = fileVersion(this.path);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      // No file yet: no keys
+      this.index([]);
+      this.loadedVersion = '';
+      return;
+    }
+    if (version === this.loadedVersion) return;
+
+    const content = JSON.parse(fs.readFileSync(this.path, 'utf8'));
+    if (!content || !Array.isArray(content.keys)) {
+      throw new Error(`${this.path}: expected an object with a "keys" array`);
+    }
+    this.index(content.keys);
+    this.loadedVersion = version;
+  }
+
+  private save(keys: ApiKey[]): void {
+    // Written aside and renamed, so a running server never reads half a file
+    const temporary = `${this.path}.${process.pid}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify({ keys }, null, 2) + '\n', { mode: 0o600 });
+    fs.renameSync(temporary, this.path);
+    this.index(keys);
+    this.loadedVersion = fileVersion(this.path);
+  }
+
+  private index(keys: ApiKey[]): void {
+    this.keys = keys;
+    this.byHash = new Map(keys.map(k => [k.hash, k]));
+  }
+}
+
+function fileVersion(path: string): string {
+  const stat = fs.statSync(path);
+  return `${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+}
+
+export type RateLimitDecision =
+  | { allowed: true; remainingToday: number }
+  | { allowed: false; reason: 'rate' | 'quota'; retryAfterSeconds: number };
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Per-key limits: `ratePerMinute` queries in any 60 seconds and `dailyQuota` per UTC day.
+ * Counts are kept in memory, so they are per instance and start over on restart. Rejected
+ * requests are not counted.
+ */
+export class RateLimiter {
+  private usage: Map<string, { recent: number[]; day: string; count: number }> = new Map();
+  private now: () => number;
+
+  constructor(options: { now?: () => number } = {}) {
+    this.now = options.now || Date.now;
+  }
+
+  take(apiKey: ApiKey): RateLimitDecision {
+    const now = this.now();
+    const day = new Date(now).toISOString().slice(0, 10);
+    const usage = this.usage.get(apiKey.id) || { recent: [], day, count: 0 };
+    usage.recent = usage.recent.filter(at => now - at < MINUTE_MS);
+    if (usage.day !== day) {
+      usage.day = day;
+      usage.count = 0;
+    }
+    this.usage.set(apiKey.id, usage);
+
+    if (usage.count >= apiKey.dailyQuota) {
+      const midnight = Date.parse(`${day}T00:00:00Z`) + 24 * 60 * MINUTE_MS;
+      return { allowed: false, reason: 'quota', retryAfterSeconds: Math.ceil((midnight - now) / 1000) };
+    }
+    if (usage.recent.length >= apiKey.ratePerMinute) {
+      // Allowed again once the oldest query of the last minute is a minute old
+      const oldest = usage.recent[usage.recent.length - apiKey.ratePerMinute];
+      return { allowed: false, reason: 'rate', retryAfterSeconds: Math.max(1, Math.ceil((oldest + MINUTE_MS - now) / 1000)) };
+    }
+
+    usage.recent.push(now);
+    usage.count++;
+    return { allowed: true, remainingToday: apiKey.dailyQuota - usage.count };
+  }
+}
@@ -0,0 +1,142 @@
+import { SemanticMapper, QueryIntent } from './semantic_mapper';
+import { withDefaultYear } from './date_parser';
+import { QueryPlan, Filter } from './query_plan';
+
+export interface ClarificationOption {
+  label: string;
+  // The question rewritten with this choice, to be asked instead
+  question: string;
+}
+
+export interface Clarification {
+  question: string;
+  // 0 to 1; below CLARIFY_BELOW the query is not run
+  confidence: number;
+  options: ClarificationOption[];
+}
+
+export const CLARIFY_BELOW = 0.5;
+
+// Phrases that ask for each kind of metric, completed with the metric's first synonym
+const AGGREGATE_PHRASES: { [aggregate: string]: string } = {
+  count: 'How many',
+  avg: 'Average',
+  sum: 'Total',
+  max: 'Maximum',
+  min: 'Minimum'
+};
+
+// Words asking for something rather than naming it, dropped when the question is rewritten
+const REQUEST_WORDS = /^(?:please\s+)?(?:show|list|give|get|find|tell)(?:\s+me)?\s+(?:(?:the|all)\s+)?/i;
+
+/**
+ * Scores how sure the planner can be of a plan and, when it had to guess, offers the
+ * alternatives. Plans that measure nothing are not run; for ambiguous roles ("start or
+ * end station?") and years the default is run and the alternatives are attached.
+ */
+export class Clarifier {
+  private semanticMapper: SemanticMapper;
+
+  constructor(semanticMapper: SemanticMapper) {
+    this.semanticMapper = semanticMapper;
+  }
+
+  clarify(question: string, plan: QueryPlan, previous: QueryPlan | null = null): Clarification | null {
+    return this.clarifyMetric(question, plan)
+      || this.clarifyRole(question, plan)
+      || (previous ? null : this.clarifyYear(question, plan));
+  }
+
+  private clarifyMetric(question: string, plan: QueryPlan): Clarification | null {
+    if (plan.measures.length > 0 || plan.dimensions.length > 0) return null;
+
+    const model = this.semanticMapper.getSemanticModel();
+    const counted = Object.values(model.metrics).find(metric => metric.aggregate === 'count' && !metric.expression);
+    const options = Object.entries(model.metrics)
+      .filter(([, metric]) => metric.aggregate !== null)
+      .map(([name, metric]) => {
+        const phrase = `${AGGREGATE_PHRASES[metric.aggregate!]} ${metric.synonyms[0] || name.replace(/_/g, ' ')}`;
+        return {
+          label: metric.description || phrase,
+          question: this.withMetric(phrase, metric === counted, counted ? counted.synonyms : [], question)
+        };
+      });
+
+    return {
+      question: 'What would you like to know?',
+      confidence: plan.intent === QueryIntent.FILTER ? 0.2 : 0.3,
+      options
+    };
+  }
+
+  private clarifyRole(question: string, plan: QueryPlan): Clarification | null {
+    const graph = this.semanticMapper.getJoinGraph();
+    const named = this.semanticMapper.findRoles(question);
+    const placed = this.semanticMapper.findValues(question).filter(value => value.role).map(value => value.table);
+
+    for (const join of plan.joins) {
+      const roles = graph.rolesOf(join.table);
+      // Routes join every role; "from Lamar Blvd" places its value itself
+      const joinedRoles = plan.joins.filter(j => j.table === join.table).length;
+      if (roles.length < 2 || joinedRoles > 1 || named[join.table] || placed.includes(join.table)) continue;
+
+      const words = this.semanticMapper.tableWords(join.table);
+      const noun = join.table.replace(/s$/, '').replace(/_/g, ' ');
+      const phrase = words.find(word => new RegExp(`\\b${word}\\b`, 'i').test(question));
+
+      return {
+        question: `Did you mean ${roles.map(role => `${role} ${noun}`).join(' or ')}?`,
+        confidence: 0.7,
+        options: roles.map(role => ({
+          label: `${role} ${noun}`,
+          question: phrase
+            ? question.replace(new RegExp(`\\b${phrase}\\b`, 'i'), `${role} ${phrase}`)
+            : `${question.replace(/[?.!\s]+$/, '')} (${role} ${noun})`
+        }))
+      };
+    }
+    return null;
+  }
+
+  // A month without a year is read as its most recent occurrence, which may not be the one meant
+  private clarifyYear(question: string, plan: QueryPlan): Clarification | null {
+    const date = plan.filters.find(f => f.field === 'date');
+    const year = date ? this.firstYear(date) : null;
+    if (year === null || withDefaultYear(question, year) === question) return null;
+
+    return {
+      question: 'Which year?',
+      confidence: 0.8,
+      options: [year, year - 1].map(option => ({
+        label: String(option),
+        question: withDefaultYear(question, option)
+      }))
+    };
+  }
+
+  private firstYear(filter: Filter): number | null {
+    if (filter.kind === 'any' || filter.kind === 'all') {
+      return filter.filters.length > 0 ? this.firstYear(filter.filters[0]) : null;
+    }
+    if (filter.kind === 'range') {
+      return parseInt(String(filter.from).slice(0, 4));
+    }
+    return null;
+  }
+
+  /**
+   * Puts a metric in front of a question that named none: "trips ending at Zilker Park"
+   * becomes "How many trips ending at Zilker Park" or "Average ride time for trips ending at
+   * Zilker Park", so the rows the question names are not named twice.
+   */
+  private withMetric(phrase: string, counts: boolean, rowWords: string[], question: string): string {
+    const rest = this.lowerFirst(question.trim().replace(REQUEST_WORDS, ''));
+    const rows = rowWords.find(word => new RegExp(`^${word}\\b`, 'i').test(rest));
+    if (!rows) return `${phrase} ${rest}`;
+    return counts ? `${AGGREGATE_PHRASES.count} ${rest}` : `${phrase} for ${rest}`;
+  }
+
+  private lowerFirst(text: string): string {
+    return text.charAt(0).toLowerCase() + text.slice(1);
+  }
+}
@@ -0,0 +1,84 @@
+import { randomUUID } from 'crypto';
+import { QueryPlan } from './query_plan';
+
+export interface ConversationTurn {
+  question: string;
+  plan: QueryPlan;
+}
+
+export interface Conversation {
+  id: string;
+  turns: ConversationTurn[];
+  updatedAt: number;
+}
+
+export interface ConversationStoreOptions {
+  // Conversations idle for longer are forgotten
+  ttlMs?: number;
+  maxConversations?: number;
+  // Turns kept per conversation, oldest dropped first
+  maxTurns?: number;
+  now?: () => number;
+}
+
+/**
+ * In-memory conversations keyed by session ID, so follow-up questions can be resolved
+ * against the previous query plan. Least recently used conversations are evicted first.
+ */
+export class ConversationStore {
+  private conversations: Map<string, Conversation> = new Map();
+  private ttlMs: number;
+  private maxConversations: number;
+  private maxTurns: number;
+  private now: () => number;
+
+  constructor(options: ConversationStoreOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 30 * 60 * 1000;
+    this.maxConversations = options.maxConversations ?? 1000;
+    this.maxTurns = options.maxTurns ?? 20;
+    this.now = options.now || Date.now;
+  }
+
+  create(): string {
+    return randomUUID();
+  }
+
+  get(id: string): Conversation | null {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return null;
+
+    if (this.now() - conversation.updatedAt > this.ttlMs) {
+      this.conversations.delete(id);
+      return null;
+    }
+    return conversation;
+  }
+
+  lastPlan(id: string): QueryPlan | null {
+    const conversation = this.get(id);
+    return conversation && conversation.turns.length > 0 ? conversation.turns[conversation.turns.length - 1].plan : null;
+  }
+
+  append(id: string, question: string, plan: QueryPlan): void {
+    const conversation = this.get(id) || { id, turns: [], updatedAt: 0 };
+    conversation.turns = [...conversation.turns, { question, plan }].slice(-this.maxTurns);
+    conversation.updatedAt = this.now();
+
+    // Re-inserting keeps the map ordered from least to most recently used
+    this.conversations.delete(id);
+    this.conversations.set(id, conversation);
+
+    while (this.conversations.size > this.maxConversations) {
+      const [oldest] = this.conversations.keys();
+      this.conversations.delete(oldest);
+    }
+  }
+
+  delete(id: string): void {
+    this.conversations.delete(id);
+  }
+
+  size(): number {
+    return this.conversations.size;
+  }
+}
@@ -0,0 +1,438 @@
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface DateParserOptions {
+  referenceDate?: Date;
+}
+
+interface ParsedDay {
+  year: number | null;
+  month: number;
+  day: number;
+}
+
+const MONTHS: { [key: string]: number } = {
+  january: 0, jan: 0,
+  february: 1, feb: 1,
+  march: 2, mar: 2,
+  april: 3, apr: 3,
+  may: 4,
+  june: 5, jun: 5,
+  july: 6, jul: 6,
+  august: 7, aug: 7,
+  september: 8, sept: 8, sep: 8,
+  october: 9, oct: 9,
+  november: 10, nov: 10,
+  december: 11, dec: 11
+};
+
+const WEEKDAYS: { [key: string]: number } = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6
+};
+
+const ORDINALS: { [key: string]: number } = {
+  first: 1, '1st': 1,
+  second: 2, '2nd': 2,
+  third: 3, '3rd': 3,
+  fourth: 4, '4th': 4
+};
+
+// "may" is only treated as a month when it is not used as a verb ("may be", "may I")
+const MONTH_PATTERN = '(january|february|march|april|may(?!\\s+(?:be|have|i|we|you|not)\\b)|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec)';
+const YEAR_PATTERN = '((?:19|20)\\d{2})';
+const DAY_PATTERN = '(\\d{1,2})(?:st|nd|rd|th)?(?!\\d)';
+const ISO_DATE_PATTERN = '(\\d{4})-(\\d{2})-(\\d{2})';
+const DATE_PATTERN = `(?:${ISO_DATE_PATTERN}|${MONTH_PATTERN}\\s+${DAY_PATTERN}(?:,?\\s+${YEAR_PATTERN})?|${DAY_PATTERN}\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+${YEAR_PATTERN})?|${DAY_PATTERN}(?:,?\\s+${YEAR_PATTERN})?)`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class DateParser {
+  private referenceDate: Date | null;
+
+  constructor(options: DateParserOptions = {}) {
+    this.referenceDate = options.referenceDate || null;
+  }
+
+  setReferenceDate(referenceDate: Date | null): void {
+    this.referenceDate = referenceDate;
+  }
+
+  getReferenceDate(): Date {
+    return this.referenceDate ? new Date(this.referenceDate) : new Date();
+  }
+
+  /**
+   * Parses the temporal expression in a question into one or more inclusive date ranges.
+   * Day-of-week qualifiers ("weekends in July", "Mondays in June") split the outer range
+   * into one range per matching run of days. Returns null when no date is mentioned.
+   */
+  parse(question: string): DateRange[] | null {
+    const text = question.toLowerCase();
+    const reference = this.getReferenceDate();
+    const weekdays = this.extractWeekdayFilter(text);
+    const range = this.extractRange(text, reference);
+
+    if (range) {
+      if (weekdays) {
+        const ranges = this.splitByWeekdays(range, weekdays.days);
+        return ranges.length > 0 ? ranges : null;
+      }
+      return [range];
+    }
+
+    // A weekday without an outer period refers to its most recent occurrence
+    if (weekdays) {
+      return [this.mostRecentWeekdays(reference, weekdays.days)];
+    }
+
+    return null;
+  }
+
+  private extractRange(text: string, reference: Date): DateRange | null {
+    return this.parseBetween(text, reference)
+      || this.parseIsoDate(text)
+      || this.parseRelativeDay(text, reference)
+      || this.parseRollingPeriod(text, reference)
+      || this.parseWeekOfMonth(text, reference)
+      || this.parseCalendarPeriod(text, reference)
+      || this.parseQuarter(text, reference)
+      || this.parseMonthDay(text, reference)
+      || this.parseMonth(text, reference)
+      || this.parseYear(text);
+  }
+
+  private parseBetween(text: string, reference: Date): DateRange | null {
+    const pattern = new RegExp(`\\b(?:between|from)\\s+${DATE_PATTERN}\\s+(?:and|to|through|until|-)\\s+${DATE_PATTERN}`);
+    const match = text.match(pattern);
+    if (!match) return null;
+
+    // Each DATE_PATTERN contributes 11 capture groups
+    const first = this.toParsedDay(match.slice(1, 12));
+    const second = this.toParsedDay(match.slice(12, 23));
+    if (!first || !second) return null;
+
+    // "between March 3 and 10" borrows the month from the first date
+    if (first.month < 0 && second.month < 0) return null;
+    if (first.month < 0) first.month = second.month;
+    if (second.month < 0) second.month = first.month;
+
+    const firstYear = first.year ?? second.year ?? this.inferYear(first.month, reference);
+    const secondYear = second.year ?? (second.month < first.month ? firstYear + 1 : firstYear);
+
+    const start = this.startOfDay(new Date(firstYear, first.month, first.day));
+    const end = this.endOfDay(new Date(secondYear, second.month, second.day));
+    if (!this.isValidDay(firstYear, first.month, first.day) || !this.isValidDay(secondYear, second.month, second.day)) {
+      return null;
+    }
+    return start <= end ? { start, end } : { start: this.startOfDay(end), end: this.endOfDay(start) };
+  }
+
+  private toParsedDay(groups: (string | undefined)[]): ParsedDay | null {
+    const [isoYear, isoMonth, isoDay, monthA, dayA, yearA, dayB, monthB, yearB, dayOnly, yearOnly] = groups;
+
+    if (isoYear) {
+      return { year: parseInt(isoYear), month: parseInt(isoMonth!) - 1, day: parseInt(isoDay!) };
+    }
+    if (monthA) {
+      return { year: yearA ? parseInt(yearA) : null, month: MONTHS[monthA], day: parseInt(dayA!) };
+    }
+    if (monthB) {
+      return { year: yearB ? parseInt(yearB) : null, month: MONTHS[monthB], day: parseInt(dayB!) };
+    }
+    if (dayOnly) {
+      return { year: yearOnly ? parseInt(yearOnly) : null, month: -1, day: parseInt(dayOnly) };
+    }
+    return null;
+  }
+
+  private parseIsoDate(text: string): DateRange | null {
+    const dayMatch = text.match(new RegExp(`\\b${ISO_DATE_PATTERN}\\b`));
+    if (dayMatch) {
+      const [year, month, day] = [parseInt(dayMatch[1]), parseInt(dayMatch[2]) - 1, parseInt(dayMatch[3])];
+      if (!this.isValidDay(year, month, day)) return null;
+      return this.dayRange(new Date(year, month, day));
+    }
+
+    const monthMatch = text.match(/\b(\d{4})-(\d{2})\b/);
+    if (monthMatch) {
+      const month = parseInt(monthMatch[2]) - 1;
+      if (month < 0 || month > 11) return null;
+      return this.monthRange(parseInt(monthMatch[1]), month);
+    }
+
+    return null;
+  }
+
+  private parseRelativeDay(text: string, reference: Date): DateRange | null {
+    if (/\bday before yesterday\b/.test(text)) {
+      return this.dayRange(this.addDays(reference, -2));
+    }
+    if (/\byesterday\b/.test(text)) {
+      return this.dayRange(this.addDays(reference, -1));
+    }
+    if (/\btoday\b/.test(text)) {
+      return this.dayRange(reference);
+    }
+    return null;
+  }
+
+  private parseRollingPeriod(text: string, reference: Date): DateRange | null {
+    const match = text.match(/\b(?:last|past|previous)\s+(\d+)\s+(day|week|month|year)s?\b/);
+    if (!match) return null;
+
+    const amount = parseInt(match[1]);
+    if (amount <= 0) return null;
+
+    const end = this.endOfDay(reference);
+    let start: Date;
+    switch (match[2]) {
+      case 'day':
+        start = this.addDays(reference, -(amount - 1));
+        break;
+      case 'week':
+        start = this.addDays(reference, -(amount * 7 - 1));
+        break;
+      case 'month':
+        start = this.addDays(new Date(reference.getFullYear(), reference.getMonth() - amount, reference.getDate()), 1);
+        break;
+      default:
+        start = this.addDays(new Date(reference.getFullYear() - amount, reference.getMonth(), reference.getDate()), 1);
+    }
+
+    return { start: this.startOfDay(start), end };
+  }
+
+  private parseWeekOfMonth(text: string, reference: Date): DateRange | null {
+    const pattern = new RegExp(`\\b(first|second|third|fourth|last|1st|2nd|3rd|4th)\\s+week\\s+(?:of|in)\\s+${MONTH_PATTERN}(?:,?\\s+${YEAR_PATTERN})?`);
+    const match = text.match(pattern);
+    if (!match) return null;
+
+    const month = MONTHS[match[2]];
+    const year = match[3] ? parseInt(match[3]) : this.inferYear(month, reference);
+
+    if (match[1] === 'last') {
+      const lastDay = new Date(year, month + 1, 0);
+      return { start: this.startOfDay(this.addDays(lastDay, -6)), end: this.endOfDay(lastDay) };
+    }
+
+    const firstDay = (ORDINALS[match[1]] - 1) * 7 + 1;
+    return {
+      start: this.startOfDay(new Date(year, month, firstDay)),
+      end: this.endOfDay(new Date(year, month, firstDay + 6))
+    };
+  }
+
+  private parseCalendarPeriod(text: string, reference: Date): DateRange | null {
+    const match = text.match(/\b(last|previous|this|current)\s+(week|month|quarter|year)\b/);
+    if (!match) return null;
+
+    const offset = match[1] === 'last' || match[1] === 'previous' ? -1 : 0;
+    const year = reference.getFullYear();
+    const month = reference.getMonth();
+
+    switch (match[2]) {
+      case 'week': {
+        // Weeks start on Monday
+        const monday = this.addDays(reference, -((reference.getDay() + 6) % 7) + offset * 7);
+        return { start: this.startOfDay(monday), end: this.endOfDay(this.addDays(monday, 6)) };
+      }
+      case 'month':
+        return this.monthRange(year, month + offset);
+      case 'quarter': {
+        const quarterStart = Math.floor(month / 3) * 3 + offset * 3;
+        return {
+          start: new Date(year, quarterStart, 1, 0, 0, 0, 0),
+          end: new Date(year, quarterStart + 3, 0, 23, 59, 59, 999)
+        };
+      }
+      default:
+        return this.yearRange(year + offset);
+    }
+  }
+
+  private parseQuarter(text: string, reference: Date): DateRange | null {
+    let quarter: number | null = null;
+    let year: number | null = null;
+
+    const shortMatch = text.match(new RegExp(`\\bq([1-4])\\b(?:\\s*(?:of\\s+)?${YEAR_PATTERN})?`))
+      || text.match(new RegExp(`\\b${YEAR_PATTERN}\\s*q([1-4])\\b`));
+    const longMatch = text.match(new RegExp(`\\b(first|second|third|fourth|1st|2nd|3rd|4th)\\s+quarter\\b(?:\\s+(?:of\\s+)?${YEAR_PATTERN})?`));
+
+    if (shortMatch && /^q/.test(shortMatch[0])) {
+      quarter = parseInt(shortMatch[1]);
+      year = shortMatch[2] ? parseInt(shortMatch[2]) : null;
+    } else if (shortMatch) {
+      quarter = parseInt(shortMatch[2]);
+      year = parseInt(shortMatch[1]);
+    } else if (longMatch) {
+      quarter = ORDINALS[longMatch[1]];
+      year = longMatch[2] ? parseInt(longMatch[2]) : null;
+    }
+
+    if (quarter === null) return null;
+
+    const startMonth = (quarter - 1) * 3;
+    if (year === null) {
+      year = this.inferYear(startMonth, reference);
+    }
+
+    return {
+      start: new Date(year, startMonth, 1, 0, 0, 0, 0),
+      end: new Date(year, startMonth + 3, 0, 23, 59, 59, 999)
+    };
+  }
+
+  private parseMonthDay(text: string, reference: Date): DateRange | null {
+    const monthFirst = text.match(new RegExp(`\\b${MONTH_PATTERN}\\s+${DAY_PATTERN}(?:,?\\s+${YEAR_PATTERN})?`));
+    const dayFirst = text.match(new RegExp(`\\b${DAY_PATTERN}\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+${YEAR_PATTERN})?`));
+
+    let parsed: ParsedDay | null = null;
+    if (monthFirst) {
+      parsed = { month: MONTHS[monthFirst[1]], day: parseInt(monthFirst[2]), year: monthFirst[3] ? parseInt(monthFirst[3]) : null };
+    } else if (dayFirst) {
+      parsed = { month: MONTHS[dayFirst[2]], day: parseInt(dayFirst[1]), year: dayFirst[3] ? parseInt(dayFirst[3]) : null };
+    }
+
+    if (!parsed) return null;
+
+    const year = parsed.year ?? this.inferYear(parsed.month, reference);
+    if (!this.isValidDay(year, parsed.month, parsed.day)) return null;
+    return this.dayRange(new Date(year, parsed.month, parsed.day));
+  }
+
+  private parseMonth(text: string, reference: Date): DateRange | null {
+    const match = text.match(new RegExp(`\\b${MONTH_PATTERN}\\b(?:,?\\s+(?:of\\s+)?${YEAR_PATTERN})?`));
+    if (!match) return null;
+
+    const month = MONTHS[match[1]];
+    const year = match[2] ? parseInt(match[2]) : this.inferYear(month, reference);
+    return this.monthRange(year, month);
+  }
+
+  private parseYear(text: string): DateRange | null {
+    const match = text.match(new RegExp(`\\b(?:in|during|for|of|throughout)\\s+${YEAR_PATTERN}\\b`));
+    return match ? this.yearRange(parseInt(match[1])) : null;
+  }
+
+  private extractWeekdayFilter(text: string): { days: number[] } | null {
+    if (/\bweekends?\b/.test(text)) {
+      return { days: [6, 0] };
+    }
+    if (/\bweekdays\b|\bworking days\b|\bwork days\b/.test(text)) {
+      return { days: [1, 2, 3, 4, 5] };
+    }
+
+    const days: number[] = [];
+    for (const [name, day] of Object.entries(WEEKDAYS)) {
+      if (new RegExp(`\\b${name}s?\\b`).test(text)) {
+        days.push(day);
+      }
+    }
+    return days.length > 0 ? { days } : null;
+  }
+
+  private splitByWeekdays(range: DateRange, days: number[]): DateRange[] {
+    const ranges: DateRange[] = [];
+    let current: DateRange | null = null;
+
+    for (let day = this.startOfDay(range.start); day <= range.end; day = this.addDays(day, 1)) {
+      if (days.includes(day.getDay())) {
+        if (current) {
+          current.end = this.endOfDay(day);
+        } else {
+          current = this.dayRange(day);
+        }
+      } else if (current) {
+        ranges.push(current);
+        current = null;
+      }
+    }
+
+    if (current) ranges.push(current);
+    return ranges;
+  }
+
+  private mostRecentWeekdays(reference: Date, days: number[]): DateRange {
+    // Walk back from yesterday to the latest matching day, then extend over adjacent matches
+    let end = this.addDays(reference, -1);
+    while (!days.includes(end.getDay())) {
+      end = this.addDays(end, -1);
+    }
+
+    let start = end;
+    while (days.includes(this.addDays(start, -1).getDay()) && this.daysBetween(start, end) < 6) {
+      start = this.addDays(start, -1);
+    }
+
+    return { start: this.startOfDay(start), end: this.endOfDay(end) };
+  }
+
+  private inferYear(month: number, reference: Date): number {
+    // Without an explicit year, a month refers to its most recent occurrence
+    return month > reference.getMonth() ? reference.getFullYear() - 1 : reference.getFullYear();
+  }
+
+  private isValidDay(year: number, month: number, day: number): boolean {
+    const date = new Date(year, month, day);
+    return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day;
+  }
+
+  private dayRange(date: Date): DateRange {
+    return { start: this.startOfDay(date), end: this.endOfDay(date) };
+  }
+
+  private monthRange(year: number, month: number): DateRange {
+    return {
+      start: new Date(year, month, 1, 0, 0, 0, 0),
+      end: new Date(year, month + 1, 0, 23, 59, 59, 999)
+    };
+  }
+
+  private yearRange(year: number): DateRange {
+    return {
+      start: new Date(year, 0, 1, 0, 0, 0, 0),
+      end: new Date(year, 11, 31, 23, 59, 59, 999)
+    };
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, 0, 0, 0);
+  }
+
+  private endOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+  }
+
+  private addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days,
+      date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds());
+  }
+
+  private daysBetween(start: Date, end: Date): number {
+    return Math.round((this.startOfDay(end).getTime() - this.startOfDay(start).getTime()) / DAY_MS);
+  }
+}
+
+export function toSqlTimestamp(date: Date): string {
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+// The second after a "YYYY-MM-DD HH:MM:SS" timestamp, e.g. midnight after 23:59:59, or null
+// for other formats
+export function nextSecond(timestamp: string): string | null {
+  const parts = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})$/.exec(timestamp);
+  if (!parts) return null;
+  const [year, month, day, hour, minute, second] = parts.slice(1).map(Number);
+  // In UTC, where no clock change skips or repeats a second
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second + 1)).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// Puts `year` after months named without a day or year, so "and July?" can stay in the year already being discussed
+export function withDefaultYear(question: string, year: number): string {
+  if (new RegExp(`\\b${YEAR_PATTERN}\\b`).test(question)) return question;
+  return question.replace(new RegExp(`\\b${MONTH_PATTERN}\\b(?![\\s,]*\\d)`, 'gi'), `$1 ${year}`);
+}
@@ -0,0 +1,227 @@
+import { DuckDBConnection, DuckDBInstance, DuckDBResult, StatementType } from '@duckdb/node-api';
+import { ColumnInfo, DataSource, Execute, ExecutionLimits, ReadOnlyResult, TableInfo } from './database_service';
+import { QueryError } from './query_error';
+import { DuckDBDialect, SqlDialect } from './sql_dialect';
+
+interface ConstraintRow {
+  table_name: string;
+  constraint_name: string;
+  constraint_type: 'PRIMARY KEY' | 'FOREIGN KEY' | 'UNIQUE';
+  constraint_column_names: string[];
+  referenced_table: string | null;
+  referenced_column_names: string[];
+}
+
+const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+
+/**
+ * A DataSource over a DuckDB file, opened in read-only mode so generated SQL cannot change
+ * it. Each query gets a connection of its own, which is interrupted when it runs past the
+ * statement timeout.
+ *
+ * When `writable`, the file is opened for writing, and created if missing, so executeQuery
+ * can load data; generated SQL is still refused unless it is a SELECT. DuckDB lets only one
+ * process open a file for writing, and no other process read it meanwhile.
+ *
+ * Rows are read as JSON: BIGINT and DECIMAL values come back as strings, as they do from
+ * pg, and dates and timestamps as ISO strings.
+ */
+export class DuckDBDataSource implements DataSource {
+  readonly dialect: SqlDialect = new DuckDBDialect();
+  private instance: Promise<DuckDBInstance>;
+  private writable: boolean;
+
+  constructor(path: string, options: { writable?: boolean } = {}) {
+    this.writable = options.writable || false;
+    this.instance = DuckDBInstance.create(path, { access_mode: this.writable ? 'READ_WRITE' : 'READ_ONLY' });
+    // Opening errors surface on first use
+    this.instance.catch(() => undefined);
+  }
+
+  async getSchema(): Promise<TableInfo[]> {
+    return this.withConnection(async connection => {
+      const columns = (await connection.runAndReadAll(`
+        SELECT table_name, column_name, lower(data_type) AS data_type, is_nullable, column_default
+        FROM information_schema.columns
+        WHERE table_schema = 'main'
+        ORDER BY table_name, ordinal_position
+      `)).getRowObjectsJson() as unknown as ColumnInfo[];
+      const constraints = (await connection.runAndReadAll(`
+        SELECT table_name, constraint_name, constraint_type, constraint_column_names, referenced_table, referenced_column_names
+        FROM duckdb_constraints()
+        WHERE schema_name = 'main' AND constraint_type IN ('PRIMARY KEY', 'FOREIGN KEY', 'UNIQUE')
+        ORDER BY table_name, constraint_name
+      `)).getRowObjectsJson() as unknown as ConstraintRow[];
+
+      const tableMap = new Map<string, ColumnInfo[]>();
+      columns.forEach(col => tableMap.set(col.table_name, [...(tableMap.get(col.table_name) || []), col]));
+
+      return Array.from(tableMap.entries()).map(([table_name, columns]) => {
+        const tableConstraints = constraints.filter(c => c.table_name === table_name);
+        const primaryKey = tableConstraints.find(c => c.constraint_type === 'PRIMARY KEY');
+
+        return {
+          table_name,
+          columns,
+          primary_key: primaryKey ? primaryKey.constraint_column_names : [],
+          foreign_keys: tableConstraints
+            .filter(c => c.constraint_type === 'FOREIGN KEY')
+            .map(c => ({
+              constraint_name: c.constraint_name,
+              columns: c.constraint_column_names,
+              foreign_table: c.referenced_table!,
+              foreign_columns: c.referenced_column_names
+            })),
+          unique_constraints: tableConstraints
+            .filter(c => c.constraint_type === 'UNIQUE')
+            .map(c => c.constraint_column_names)
+        };
+      });
+    });
+  }
+
+  async getDistinctValues(table: string, column: string, limit: number): Promise<string[]> {
+    return this.withConnection(async connection => {
+      const reader = await connection.runAndReadAll(
+        `SELECT DISTINCT CAST(${quote(column)} AS VARCHAR) AS value FROM ${quote(table)} WHERE ${quote(column)} IS NOT NULL LIMIT $1`,
+        [limit]
+      );
+      return reader.getRowObjectsJson().map(row => row.value as string);
+    });
+  }
+
+  async executeQuery(sql: string, params: any[] = []): Promise<any[]> {
+    if (!this.writable) {
+      throw new QueryError('READ_ONLY_VIOLATION', 'The database was opened read-only');
+    }
+    return this.withConnection(async connection => (await connection.runAndReadAll(sql, params)).getRowObjectsJson());
+  }
+
+  async transaction<T>(run: (execute: Execute) => Promise<T>): Promise<T> {
+    if (!this.writable) {
+      throw new QueryError('READ_ONLY_VIOLATION', 'The database was opened read-only');
+    }
+    return this.withConnection(async connection => {
+      await connection.run('BEGIN TRANSACTION');
+      try {
+        const result = await run(async (sql, params = []) => (await connection.runAndReadAll(sql, params)).getRowObjectsJson());
+        await connection.run('COMMIT');
+        return result;
+      } catch (error) {
+        await connection.run('ROLLBACK').catch(() => undefined);
+        throw error;
+      }
+    });
+  }
+
+  async executeReadOnly(sql: string, params: any[], limits: ExecutionLimits): Promise<ReadOnlyResult> {
+    return this.withReadOnlyResult(sql, params, limits, async result => {
+      const rows: any[] = [];
+      let totalCount = 0;
+      for await (const chunk of result.yieldRowObjectJson()) {
+        totalCount += chunk.length;
+        rows.push(...chunk.slice(0, limits.maxRows - rows.length));
+      }
+      return { rows, truncated: totalCount > rows.length, totalCount };
+    });
+  }
+
+  async streamReadOnly(
+    sql: string,
+    params: any[],
+    limits: ExecutionLimits,
+    batchSize: number,
+    onRows: (rows: any[]) => Promise<void> | void
+  ): Promise<number> {
+    return this.withReadOnlyResult(sql, params, limits, async result => {
+      let count = 0;
+      // DuckDB reads rows in chunks of its own size; they are re-cut to batchSize. Unlike
+      // Postgres' per-statement timeout, the timeout covers the whole stream
+      let pending: any[] = [];
+      for await (const chunk of result.yieldRowObjectJson()) {
+        pending.push(...chunk);
+        while (pending.length >= batchSize) {
+          await onRows(pending.slice(0, batchSize));
+          pending = pending.slice(batchSize);
+          count += batchSize;
+        }
+      }
+      if (pending.length > 0) {
+        await onRows(pending);
+        count += pending.length;
+      }
+      return count;
+    });
+  }
+
+  // The physical plan DuckDB would run the query with, one line per row; nothing runs
+  async explain(sql: string, params: any[], limits: ExecutionLimits): Promise<string[]> {
+    return this.withConnection(async connection => {
+      await this.prepareSelect(connection, sql);
+      const reader = await this.withTimeout(connection, limits, () =>
+        connection.runAndReadAll(`EXPLAIN ${sql.replace(/;\s*$/, '')}`, params)
+      );
+      return reader.getRowObjectsJson().flatMap(row => String(row.explain_value).split('\n').filter(line => line.length > 0));
+    });
+  }
+
+  async close(): Promise<void> {
+    const instance = await this.instance.catch(() => null);
+    instance?.closeSync();
+  }
+
+  private async withReadOnlyResult<T>(
+    sql: string,
+    params: any[],
+    limits: ExecutionLimits,
+    read: (result: DuckDBResult) => Promise<T>
+  ): Promise<T> {
+    return this.withConnection(async connection => {
+      const statement = await this.prepareSelect(connection, sql);
+      statement.bind(params);
+      return this.withTimeout(connection, limits, async () => read(await statement.stream()));
+    });
+  }
+
+  private async prepareSelect(connection: DuckDBConnection, sql: string) {
+    const statement = await connection.prepare(sql);
+    // The database is read-only too; this refuses writes before they reach it
+    if (statement.statementType !== StatementType.SELECT) {
+      throw new QueryError('READ_ONLY_VIOLATION', 'Query tried to modify data');
+    }
+    return statement;
+  }
+
+  private async withTimeout<T>(connection: DuckDBConnection, limits: ExecutionLimits, run: () => Promise<T>): Promise<T> {
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      connection.interrupt();
+    }, Math.max(1, Math.floor(limits.statementTimeoutMs)));
+
+    try {
+      return await run();
+    } catch (error) {
+      if (timedOut) {
+        throw new QueryError('STATEMENT_TIMEOUT', `Query took longer than ${limits.statementTimeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async withConnection<T>(run: (connection: DuckDBConnection) => Promise<T>): Promise<T> {
+    const connection = await (await this.instance).connect();
+    try {
+      return await run(connection);
+    } catch (error) {
+      if (/read-only mode/.test((error as Error).message)) {
+        throw new QueryError('READ_ONLY_VIOLATION', 'Query tried to modify data');
+      }
+      throw error;
+    } finally {
+      connection.closeSync();
+    }
+  }
+}
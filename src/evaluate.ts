@@ -0,0 +1,46 @@
+import { createFixtureEvaluator, DEFAULT_GOLDEN_PATH, formatReport, loadGoldenCases } from './evaluation';
+
+const USAGE = `Usage: npm run eval -- [--golden <file.jsonl>] [--verbose]
+
+Runs the golden questions against the seeded fixture database and reports accuracy per
+intent. Exits with 1 when any question fails. SEMANTIC_MODEL_PATH is honoured.`;
+
+async function main(args: string[]): Promise<number> {
+  let goldenPath = DEFAULT_GOLDEN_PATH;
+  let verbose = false;
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--golden':
+        goldenPath = args[++i];
+        break;
+      case '--verbose':
+        verbose = true;
+        break;
+      default:
+        console.error(USAGE);
+        return 2;
+    }
+  }
+  if (!goldenPath) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const cases = loadGoldenCases(goldenPath);
+  const { evaluator, database } = await createFixtureEvaluator(process.env.SEMANTIC_MODEL_PATH);
+  try {
+    const report = await evaluator.run(cases);
+    console.log(formatReport(report, verbose));
+    return report.passed === report.total ? 0 : 1;
+  } finally {
+    await database.close();
+  }
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Evaluation failed:', error);
+    process.exit(2);
+  });
@@ -0,0 +1,250 @@
+import fs from 'fs';
+import path from 'path';
+import { Clarifier } from './clarifier';
+import { DataSource } from './database_service';
+import { DateParser } from './date_parser';
+import { FixtureDatabase } from './evaluation_fixture';
+import { QueryPlan } from './query_plan';
+import { QueryIntent, SemanticMapper } from './semantic_mapper';
+import { loadSemanticModel } from './semantic_model';
+import { RuleBasedStrategy, SqlGenerationStrategy } from './sql_generation_strategy';
+import { SQLGenerator } from './sql_generator';
+import { SQLValidator } from './sql_validator';
+import { ValueIndex } from './value_index';
+
+export const DEFAULT_GOLDEN_PATH = path.join(__dirname, '../src/golden_questions.jsonl');
+
+// "June" without a year is read against this date, which falls inside the fixture's data
+export const FIXTURE_REFERENCE_DATE = new Date(2025, 6, 15);
+
+/**
+ * A question with the plan and answer it should get against the fixture database. Parts
+ * left out are not checked.
+ */
+type Answer = string | number;
+
+export interface GoldenCase {
+  id: string;
+  question: string;
+  // Intent the planner should detect; accuracy is reported per intent
+  intent: QueryIntent;
+  // Measure and dimension aliases, in order
+  measures?: string[];
+  dimensions?: string[];
+  // Fields filtered on, in any order
+  filters?: string[];
+  limit?: number | null;
+  // First value of the first row, or all its values in order, e.g. both cohorts of a comparison
+  answer?: Answer | Answer[];
+  // Allowed distance from a numeric answer
+  tolerance?: number;
+  rowCount?: number;
+}
+
+export interface CaseResult {
+  id: string;
+  question: string;
+  intent: QueryIntent;
+  passed: boolean;
+  // One line per mismatch, empty when the case passed
+  failures: string[];
+  sql?: string;
+}
+
+export interface IntentAccuracy {
+  intent: QueryIntent;
+  total: number;
+  passed: number;
+  accuracy: number;
+}
+
+export interface EvaluationReport {
+  total: number;
+  passed: number;
+  accuracy: number;
+  byIntent: IntentAccuracy[];
+  results: CaseResult[];
+}
+
+export type QueryRunner = (sql: string, params: any[]) => Promise<any[]>;
+
+export function loadGoldenCases(filePath: string = DEFAULT_GOLDEN_PATH): GoldenCase[] {
+  const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+  const intents = Object.values(QueryIntent) as string[];
+
+  return lines.flatMap((line, i) => {
+    if (!line.trim()) return [];
+    const fail = (message: string): never => {
+      throw new Error(`Invalid golden case on line ${i + 1} of ${filePath}: ${message}`);
+    };
+
+    let golden: any;
+    try {
+      golden = JSON.parse(line);
+    } catch (error) {
+      return fail((error as Error).message);
+    }
+    if (typeof golden.id !== 'string' || typeof golden.question !== 'string') {
+      fail('id and question must be strings');
+    }
+    if (!intents.includes(golden.intent)) {
+      fail(`unknown intent ${golden.intent}`);
+    }
+    return [golden as GoldenCase];
+  });
+}
+
+/**
+ * Runs golden questions through a SQL generation strategy and a database, checking the plan
+ * each gets and the answer it returns, so changes to the planner's heuristics can be
+ * measured against a fixed set of questions.
+ */
+export class Evaluator {
+  private strategy: SqlGenerationStrategy;
+  private validator: SQLValidator;
+  private runQuery: QueryRunner;
+
+  constructor(strategy: SqlGenerationStrategy, validator: SQLValidator, runQuery: QueryRunner) {
+    this.strategy = strategy;
+    this.validator = validator;
+    this.runQuery = runQuery;
+  }
+
+  async run(cases: GoldenCase[]): Promise<EvaluationReport> {
+    const results: CaseResult[] = [];
+    // One at a time, so the report is in the order of the golden file
+    for (const golden of cases) {
+      results.push(await this.evaluate(golden));
+    }
+
+    const intents = [...new Set(results.map(result => result.intent))];
+    const byIntent = intents.map(intent => {
+      const matching = results.filter(result => result.intent === intent);
+      const passed = matching.filter(result => result.passed).length;
+      return { intent, total: matching.length, passed, accuracy: passed / matching.length };
+    });
+    const passed = results.filter(result => result.passed).length;
+
+    return {
+      total: results.length,
+      passed,
+      accuracy: results.length > 0 ? passed / results.length : 0,
+      byIntent,
+      results
+    };
+  }
+
+  async evaluate(golden: GoldenCase): Promise<CaseResult> {
+    const result = (failures: string[], sql?: string): CaseResult => ({
+      id: golden.id,
+      question: golden.question,
+      intent: golden.intent,
+      passed: failures.length === 0,
+      failures,
+      ...(sql ? { sql } : {})
+    });
+
+    let sql = '';
+    try {
+      const candidate = await this.strategy.generate(golden.question, null);
+      if (!candidate.sql) {
+        return result([`asked to clarify: ${candidate.clarification?.question || 'no SQL'}`]);
+      }
+      sql = candidate.sql;
+
+      const failures = candidate.plan ? checkPlan(golden, candidate.plan) : ['no query plan to check'];
+      this.validator.validate(sql);
+      const rows = await this.runQuery(sql, candidate.params);
+      return result([...failures, ...checkRows(golden, rows)], sql);
+    } catch (error) {
+      return result([`failed: ${(error as Error).message}`], sql);
+    }
+  }
+}
+
+/**
+ * An evaluator with the rule-based planner over the seeded fixture database, or another
+ * source holding the fixture's data (see fixtureSql) to check SQL in its dialect. The
+ * database is returned too, to be closed when done.
+ */
+export async function createFixtureEvaluator(
+  semanticModelPath?: string,
+  database: DataSource = new FixtureDatabase()
+): Promise<{ evaluator: Evaluator; database: DataSource }> {
+  const schema = await database.getSchema();
+  const semanticMapper = new SemanticMapper(loadSemanticModel(semanticModelPath));
+  semanticMapper.setSchema(schema);
+  semanticMapper.setValueIndex(await ValueIndex.build(schema, (table, column, limit) => database.getDistinctValues(table, column, limit)));
+
+  const sqlGenerator = new SQLGenerator(semanticMapper, new DateParser({ referenceDate: FIXTURE_REFERENCE_DATE }), database.dialect);
+  const strategy = new RuleBasedStrategy(sqlGenerator, new Clarifier(semanticMapper));
+  const validator = new SQLValidator(schema, { functions: database.dialect.functions });
+  const runQuery: QueryRunner = async (sql, params) =>
+    (await database.executeReadOnly(sql, params, { statementTimeoutMs: 5000, maxRows: 1000 })).rows;
+  const evaluator = new Evaluator(strategy, validator, runQuery);
+  return { evaluator, database };
+}
+
+export function formatReport(report: EvaluationReport, verbose: boolean = false): string {
+  const percent = (accuracy: number) => `${Math.round(accuracy * 100)}%`;
+  const width = Math.max(7, ...report.byIntent.map(row => row.intent.length));
+  const line = (label: string, passed: number, total: number, accuracy: number) =>
+    `${label.padEnd(width)}  ${`${passed}/${total}`.padStart(6)}  ${percent(accuracy).padStart(4)}`;
+
+  const lines = [
+    `${'Intent'.padEnd(width)}  ${'Passed'.padStart(6)}  ${'Acc.'.padStart(4)}`,
+    ...report.byIntent.map(row => line(row.intent, row.passed, row.total, row.accuracy)),
+    line('Overall', report.passed, report.total, report.accuracy)
+  ];
+
+  for (const result of report.results) {
+    if (result.passed && !verbose) continue;
+    lines.push('', `${result.passed ? 'PASS' : 'FAIL'} ${result.id}: ${result.question}`);
+    result.failures.forEach(failure => lines.push(`  ${failure}`));
+    if (verbose && result.sql) lines.push(`  ${result.sql}`);
+  }
+  return lines.join('\n');
+}
+
+function checkPlan(golden: GoldenCase, plan: QueryPlan): string[] {
+  const failures: string[] = [];
+  const expect = (what: string, expected: unknown, actual: unknown) => {
+    if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+      failures.push(`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  };
+
+  expect('intent', golden.intent, plan.intent);
+  if (golden.measures) expect('measures', golden.measures, plan.measures.map(m => m.alias));
+  if (golden.dimensions) expect('dimensions', golden.dimensions, plan.dimensions.map(d => d.alias));
+  if (golden.filters) expect('filters', [...golden.filters].sort(), plan.filters.map(f => f.field).sort());
+  if (golden.limit !== undefined) expect('limit', golden.limit, plan.limit);
+  return failures;
+}
+
+function checkRows(golden: GoldenCase, rows: any[]): string[] {
+  const failures: string[] = [];
+
+  if (golden.rowCount !== undefined && rows.length !== golden.rowCount) {
+    failures.push(`rows: expected ${golden.rowCount}, got ${rows.length}`);
+  }
+  if (golden.answer === undefined) return failures;
+
+  const values = rows.length > 0 ? Object.values(rows[0]) : [];
+  const matches = (expected: Answer, actual: unknown) => typeof expected === 'number'
+    // pg returns COUNT and NUMERIC as strings
+    ? actual !== null && actual !== undefined && Math.abs(Number(actual) - expected) <= (golden.tolerance ?? 0)
+    : String(actual) === expected;
+  if (Array.isArray(golden.answer)) {
+    const expected = golden.answer;
+    if (values.length !== expected.length || !expected.every((answer, i) => matches(answer, values[i]))) {
+      failures.push(`answer: expected ${JSON.stringify(expected)}, got ${JSON.stringify(values)}`);
+    }
+    return failures;
+  }
+  const actual = values[0];
+  if (!matches(golden.answer, actual)) {
+    failures.push(`answer: expected ${JSON.stringify(golden.answer)}, got ${JSON.stringify(actual)}`);
+  }
+  return failures;
+}
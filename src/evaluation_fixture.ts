@@ -0,0 +1,124 @@
+import { TableInfo } from './database_service';
+import { createTable, MemoryDataSource } from './memory_data_source';
+
+// [started_at, minutes ridden, start station, end station, km, rider gender]
+type TripSeed = [string, number, number, number, number, string];
+
+const STATIONS: [number, string][] = [
+  [1, 'Congress Avenue'],
+  [2, 'Lamar Boulevard'],
+  [3, 'Zilker Park'],
+  [4, 'Guadalupe Street']
+];
+
+// Small enough to check the golden answers by hand: June trips from Congress Avenue take
+// 20, 30 and 25 minutes, and women rode 2.5 and 4.3 km on rainy days in June
+const TRIPS: TripSeed[] = [
+  ['2025-05-06 08:05:00', 16, 1, 2, 2.9, 'female'],
+  ['2025-05-14 17:10:00', 28, 2, 1, 3.6, 'male'],
+  ['2025-05-20 12:30:00', 45, 3, 4, 7.1, 'female'],
+  ['2025-05-27 18:40:00', 14, 4, 1, 2.0, 'male'],
+  ['2025-06-01 08:10:00', 20, 1, 2, 3.1, 'female'],
+  ['2025-06-02 17:30:00', 30, 1, 3, 4.0, 'male'],
+  ['2025-06-03 07:45:00', 25, 1, 4, 2.5, 'female'],
+  ['2025-06-04 12:00:00', 15, 2, 1, 2.2, 'male'],
+  ['2025-06-05 18:20:00', 10, 3, 1, 1.5, 'female'],
+  ['2025-06-10 08:30:00', 18, 2, 3, 4.3, 'female'],
+  ['2025-06-12 09:00:00', 40, 4, 2, 6.0, 'male'],
+  ['2025-06-17 17:45:00', 12, 3, 4, 1.8, 'male'],
+  ['2025-06-21 11:15:00', 35, 4, 3, 5.2, 'female'],
+  ['2025-06-28 14:00:00', 22, 2, 4, 3.3, 'male'],
+  ['2025-07-02 08:15:00', 19, 1, 3, 3.9, 'female'],
+  ['2025-07-09 16:50:00', 33, 3, 2, 4.8, 'male'],
+  ['2025-07-11 07:55:00', 21, 2, 4, 3.0, 'female']
+];
+
+// Every other day from May to July is dry
+const RAINFALL_MM: { [date: string]: number } = {
+  '2025-05-14': 6.1,
+  '2025-06-03': 12.4,
+  '2025-06-10': 3.2,
+  '2025-06-17': 0.8,
+  '2025-07-09': 9.5
+};
+
+const COLUMNS: { [table: string]: [string, string][] } = {
+  stations: [['station_id', 'integer'], ['station_name', 'text']],
+  trips: [
+    ['trip_id', 'integer'],
+    ['started_at', 'timestamp without time zone'],
+    ['ended_at', 'timestamp without time zone'],
+    ['start_station_id', 'integer'],
+    ['end_station_id', 'integer'],
+    ['trip_distance_km', 'numeric'],
+    ['rider_gender', 'text'],
+    ['user_id', 'integer']
+  ],
+  daily_weather: [['weather_date', 'date'], ['precipitation_mm', 'numeric']]
+};
+
+const PRIMARY_KEYS: { [table: string]: string } = {
+  stations: 'station_id',
+  trips: 'trip_id',
+  daily_weather: 'weather_date'
+};
+
+export const FIXTURE_SCHEMA: TableInfo[] = Object.entries(COLUMNS).map(([table_name, columns]) => ({
+  table_name,
+  columns: columns.map(([column_name, data_type]) => ({
+    table_name,
+    column_name,
+    data_type,
+    is_nullable: column_name === PRIMARY_KEYS[table_name] ? 'NO' : 'YES',
+    column_default: null
+  })),
+  primary_key: [PRIMARY_KEYS[table_name]],
+  foreign_keys: table_name === 'trips'
+    ? ['start_station_id', 'end_station_id'].map(column => ({
+      constraint_name: `trips_${column}_fkey`,
+      columns: [column],
+      foreign_table: 'stations',
+      foreign_columns: ['station_id']
+    }))
+    : [],
+  unique_constraints: []
+}));
+
+/**
+ * A seeded in-memory copy of the bike-share database, for running generated SQL without
+ * a Postgres server. The data is fixed, so answers are the same on every run; routes cannot
+ * be answered on pg-mem (see MemoryDataSource).
+ */
+export class FixtureDatabase extends MemoryDataSource {
+  constructor() {
+    super(FIXTURE_SCHEMA, seedData());
+  }
+}
+
+// The fixture's tables and data as SQL, for loading it into a SQLite or DuckDB file
+export function fixtureSql(): string {
+  return FIXTURE_SCHEMA.map(createTable).join('\n') + seedData();
+}
+
+function seedData(): string {
+  const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+  const stations = STATIONS.map(([id, name]) => `(${id}, ${quote(name)})`);
+  const trips = TRIPS.map(([startedAt, minutes, from, to, km, gender], i) => {
+    const ended = new Date(Date.parse(`${startedAt.replace(' ', 'T')}Z`) + minutes * 60000);
+    const endedAt = ended.toISOString().slice(0, 19).replace('T', ' ');
+    return `(${i + 1}, ${quote(startedAt)}, ${quote(endedAt)}, ${from}, ${to}, ${km}, ${quote(gender)}, ${i % 5 + 1})`;
+  });
+
+  const weather: string[] = [];
+  for (let day = new Date(Date.UTC(2025, 4, 1)); day.getUTCMonth() <= 6; day.setUTCDate(day.getUTCDate() + 1)) {
+    const date = day.toISOString().slice(0, 10);
+    weather.push(`(${quote(date)}, ${RAINFALL_MM[date] || 0})`);
+  }
+
+  return `
+    INSERT INTO stations VALUES ${stations.join(', ')};
+    INSERT INTO trips VALUES ${trips.join(', ')};
+    INSERT INTO daily_weather VALUES ${weather.join(', ')};
+  `;
+}
@@ -0,0 +1,82 @@
+import dotenv from 'dotenv';
+import { createDataSource, databaseConfigFromEnv } from './database_service';
+import { formatIngestReport, IngestError, IngestKind, IngestSource, Ingester, readIngestFile } from './ingestion';
+
+const USAGE = `Usage: npm run ingest -- [--trips <file>]... [--stations <file>]... [--weather <file>]... [--reload <server url>]
+
+Loads CSV or Parquet files, or a GBFS station_information.json for stations, into the
+database configured by DATABASE_URL or the PG* variables, creating the tables and indexes
+when missing. SQLite and DuckDB files are created when they do not exist. Rejected rows are
+listed. --reload has a running server reload its schema and values, authenticating with
+ADMIN_TOKEN.`;
+
+async function main(args: string[]): Promise<number> {
+  const files: [IngestKind, string][] = [];
+  let reloadUrl: string | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    switch (args[i]) {
+      case '--trips':
+      case '--stations':
+      case '--weather':
+        if (!value) break;
+        files.push([args[i].slice(2) as IngestKind, value]);
+        i++;
+        continue;
+      case '--reload':
+        if (!value) break;
+        reloadUrl = value;
+        i++;
+        continue;
+    }
+    console.error(USAGE);
+    return 2;
+  }
+  if (files.length === 0) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let sources: IngestSource[];
+  try {
+    sources = files.map(([kind, filePath]) => readIngestFile(kind, filePath));
+  } catch (error) {
+    console.error((error as Error).message);
+    return 1;
+  }
+
+  const dataSource = createDataSource({ ...databaseConfigFromEnv(), writable: true });
+  try {
+    const report = await new Ingester(dataSource).ingest(sources);
+    console.log(formatIngestReport(report));
+  } catch (error) {
+    if (!(error instanceof IngestError)) throw error;
+    console.error(error.message);
+    return 1;
+  } finally {
+    await dataSource.close();
+  }
+
+  if (reloadUrl) {
+    const response = await fetch(`${reloadUrl.replace(/\/+$/, '')}/admin/schema/reload?force=true`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${process.env.ADMIN_TOKEN || ''}` }
+    });
+    if (!response.ok) {
+      console.error(`Schema reload failed with ${response.status}: ${await response.text()}`);
+      return 1;
+    }
+    console.log(`Reloaded the schema of ${reloadUrl}`);
+  }
+  return 0;
+}
+
+dotenv.config();
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Ingest failed:', error);
+    process.exit(2);
+  });
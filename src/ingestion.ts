@@ -0,0 +1,623 @@
+import fs from 'fs';
+import path from 'path';
+import { DataSource, Execute } from './database_service';
+
+// Loaded in this order, so trips can reference the stations loaded with them
+export type IngestKind = 'stations' | 'weather' | 'trips';
+
+export const INGEST_KINDS: IngestKind[] = ['stations', 'weather', 'trips'];
+
+// A file that cannot be loaded at all, as opposed to rows that are rejected
+export class IngestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IngestError';
+  }
+}
+
+/**
+ * Records of one file, keyed by its column headers, as read by readCsv, readParquet or
+ * readGbfsStations.
+ */
+export interface IngestSource {
+  kind: IngestKind;
+  // File name for the report
+  name: string;
+  records: AsyncIterable<Record<string, unknown>>;
+}
+
+export interface RejectedRow {
+  source: string;
+  // Counting data rows from 1, after the header
+  row: number;
+  reason: string;
+}
+
+export interface SourceReport {
+  source: string;
+  kind: IngestKind;
+  // Header each field was read from
+  columns: { [field: string]: string };
+  rows: number;
+  accepted: number;
+  rejected: number;
+}
+
+export interface IngestReport {
+  sources: SourceReport[];
+  // Rows added per table; accepted rows whose key was already there are skipped
+  inserted: { [table: string]: number };
+  // The first MAX_REPORTED_REJECTIONS rejected rows
+  rejectedRows: RejectedRow[];
+}
+
+const MAX_REPORTED_REJECTIONS = 100;
+
+const BATCH_SIZE = 500;
+
+const TABLE_DEFINITIONS = [
+  'CREATE TABLE IF NOT EXISTS stations (station_id integer PRIMARY KEY, station_name text)',
+  'CREATE TABLE IF NOT EXISTS daily_weather (weather_date date PRIMARY KEY, precipitation_mm numeric)',
+  'CREATE TABLE IF NOT EXISTS trips (' +
+    'trip_id integer PRIMARY KEY, started_at timestamp NOT NULL, ended_at timestamp NOT NULL, ' +
+    'start_station_id integer REFERENCES stations (station_id), end_station_id integer REFERENCES stations (station_id), ' +
+    'trip_distance_km numeric, rider_gender text, user_id integer)',
+  'CREATE INDEX IF NOT EXISTS trips_started_at_idx ON trips (started_at)',
+  'CREATE INDEX IF NOT EXISTS trips_start_station_id_idx ON trips (start_station_id)',
+  'CREATE INDEX IF NOT EXISTS trips_end_station_id_idx ON trips (end_station_id)'
+];
+
+const TABLES: { [kind in IngestKind]: { table: string; columns: string[] } } = {
+  stations: { table: 'stations', columns: ['station_id', 'station_name'] },
+  weather: { table: 'daily_weather', columns: ['weather_date', 'precipitation_mm'] },
+  trips: {
+    table: 'trips',
+    columns: ['trip_id', 'started_at', 'ended_at', 'start_station_id', 'end_station_id', 'trip_distance_km', 'rider_gender', 'user_id']
+  }
+};
+
+/**
+ * Headers each field is read from, normalized (lower case, "_" between words) and in order
+ * of preference. They cover GBFS station feeds, Divvy's files before and after 2020, Capital
+ * Bikeshare's and NOAA daily summaries.
+ */
+const FIELD_HEADERS: { [kind in IngestKind]: { [field: string]: string[] } } = {
+  stations: {
+    station_id: ['station_id', 'id', 'station_number', 'terminal_number'],
+    station_name: ['station_name', 'name']
+  },
+  weather: {
+    weather_date: ['weather_date', 'date', 'day'],
+    precipitation_mm: ['precipitation_mm', 'precip_mm', 'rain_mm', 'prcp', 'precipitation'],
+    precipitation_in: ['precipitation_in', 'precip_in', 'prcp_in']
+  },
+  trips: {
+    trip_id: ['trip_id', 'tripid', 'rental_id'],
+    started_at: ['started_at', 'start_time', 'starttime', 'start_date'],
+    ended_at: ['ended_at', 'end_time', 'stoptime', 'stop_time', 'end_date'],
+    duration_seconds: ['duration_seconds', 'duration_sec', 'tripduration', 'trip_duration', 'duration'],
+    start_station_id: ['start_station_id', 'from_station_id', 'start_station_number', 'start_station_code'],
+    start_station_name: ['start_station_name', 'from_station_name', 'start_station'],
+    end_station_id: ['end_station_id', 'to_station_id', 'end_station_number', 'end_station_code'],
+    end_station_name: ['end_station_name', 'to_station_name', 'end_station'],
+    start_lat: ['start_lat', 'start_station_latitude'],
+    start_lng: ['start_lng', 'start_lon', 'start_station_longitude'],
+    end_lat: ['end_lat', 'end_station_latitude'],
+    end_lng: ['end_lng', 'end_lon', 'end_station_longitude'],
+    trip_distance_km: ['trip_distance_km', 'distance_km'],
+    rider_gender: ['rider_gender', 'gender', 'member_gender'],
+    user_id: ['user_id', 'rider_id']
+  }
+};
+
+// Each inner list needs one of its fields mapped
+const REQUIRED_FIELDS: { [kind in IngestKind]: string[][] } = {
+  stations: [['station_id']],
+  weather: [['weather_date'], ['precipitation_mm', 'precipitation_in']],
+  trips: [['started_at'], ['ended_at', 'duration_seconds']]
+};
+
+// Thrown while converting a record to reject it
+class RowError extends Error {}
+
+interface Fields {
+  [field: string]: string | null;
+}
+
+interface LoadState {
+  stationIds: Set<number>;
+  stationIdsByName: Map<string, number>;
+  // Station codes that are not integers, as in GBFS feeds, and the ids given to them
+  stationIdsByCode: Map<string, number>;
+  nextStationId: number;
+  nextTripId: number;
+  // Trips numbered by this ingest, by tripKey
+  numberedTrips: Set<string>;
+  // Stations named in trip files, inserted before the trips referencing them
+  newStations: [number, string][];
+}
+
+/**
+ * Loads trip, station and weather files into `trips`, `stations` and `daily_weather`,
+ * creating the tables and their indexes when missing. Columns are found by header (see
+ * FIELD_HEADERS) and every value is checked against its column's type; rows that do not fit
+ * are rejected and reported, the rest are inserted. Rows whose key is already there are
+ * skipped, so a file can be loaded again.
+ *
+ * Each file is loaded in one transaction, so one that fails partway leaves nothing behind.
+ * Trips without an integer id are numbered after the highest one in the table, and skipped
+ * when a trip with the same start and end times, stations and rider is already there.
+ * Stations that trip files name but station files did not list are added. Station codes
+ * that are not integers, as in GBFS feeds and Divvy's newer files, are looked up by station
+ * name, and stations listed with such a code are given an id.
+ */
+export class Ingester {
+  private dataSource: DataSource;
+
+  constructor(dataSource: DataSource) {
+    this.dataSource = dataSource;
+  }
+
+  async ingest(sources: IngestSource[]): Promise<IngestReport> {
+    for (const statement of TABLE_DEFINITIONS) {
+      await this.dataSource.executeQuery(statement);
+    }
+
+    const before = await this.countRows();
+    const state = await this.loadState();
+    const rejectedRows: RejectedRow[] = [];
+    const reports: SourceReport[] = [];
+
+    const ordered = [...sources].sort((a, b) => INGEST_KINDS.indexOf(a.kind) - INGEST_KINDS.indexOf(b.kind));
+    for (const source of ordered) {
+      reports.push(await this.load(source, state, rejectedRows));
+    }
+
+    const after = await this.countRows();
+    const inserted: { [table: string]: number } = {};
+    Object.keys(after).forEach(table => {
+      inserted[table] = after[table] - before[table];
+    });
+    return { sources: reports, inserted, rejectedRows };
+  }
+
+  private async load(source: IngestSource, state: LoadState, rejectedRows: RejectedRow[]): Promise<SourceReport> {
+    const report: SourceReport = { source: source.name, kind: source.kind, columns: {}, rows: 0, accepted: 0, rejected: 0 };
+    const { table, columns } = TABLES[source.kind];
+    return this.dataSource.transaction(async execute => {
+      let batch: unknown[][] = [];
+
+      const flush = async () => {
+        if (state.newStations.length > 0) {
+          await this.insert(execute, 'stations', TABLES.stations.columns, state.newStations);
+          state.newStations = [];
+        }
+        if (batch.length > 0 && source.kind === 'trips' && report.columns.trip_id === undefined) {
+          batch = await this.newTrips(execute, batch, state);
+        }
+        if (batch.length > 0) {
+          await this.insert(execute, table, columns, batch);
+          batch = [];
+        }
+      };
+
+      for await (const record of source.records) {
+        if (report.rows === 0) {
+          report.columns = mapColumns(source, Object.keys(record));
+        }
+        report.rows++;
+
+        const fields: Fields = {};
+        Object.entries(report.columns).forEach(([field, header]) => {
+          const value = record[header];
+          fields[field] = value === null || value === undefined || String(value).trim() === '' ? null : String(value).trim();
+        });
+
+        try {
+          batch.push(this.toRow(source.kind, fields, state));
+          report.accepted++;
+        } catch (error) {
+          if (!(error instanceof RowError)) throw error;
+          report.rejected++;
+          if (rejectedRows.length < MAX_REPORTED_REJECTIONS) {
+            rejectedRows.push({ source: source.name, row: report.rows, reason: error.message });
+          }
+        }
+
+        if (batch.length >= BATCH_SIZE) await flush();
+      }
+      await flush();
+      return report;
+    });
+  }
+
+  private toRow(kind: IngestKind, fields: Fields, state: LoadState): unknown[] {
+    switch (kind) {
+      case 'stations': {
+        const code = fields.station_id ?? null;
+        const name = fields.station_name;
+        const id = code !== null && !isInteger(code) ? this.codedStation(code, name, state) : required(fields, 'station_id', integer);
+        state.stationIds.add(id);
+        if (name !== null) state.stationIdsByName.set(name, id);
+        state.nextStationId = Math.max(state.nextStationId, id + 1);
+        return [id, name];
+      }
+      case 'weather': {
+        const date = required(fields, 'weather_date', calendarDate);
+        const millimetres = optional(fields, 'precipitation_mm', decimal);
+        const inches = millimetres === null ? optional(fields, 'precipitation_in', decimal) : null;
+        const precipitation = inches !== null ? Math.round(inches * 25.4 * 100) / 100 : millimetres;
+        if (precipitation !== null && precipitation < 0) throw new RowError('precipitation is negative');
+        return [date, precipitation];
+      }
+      case 'trips':
+        return this.tripRow(fields, state);
+    }
+  }
+
+  private tripRow(fields: Fields, state: LoadState): unknown[] {
+    const startedAt = required(fields, 'started_at', timestamp);
+    let endedAt = optional(fields, 'ended_at', timestamp);
+    if (endedAt === null) {
+      const seconds = optional(fields, 'duration_seconds', decimal);
+      if (seconds === null) throw new RowError('ended_at is missing');
+      endedAt = addSeconds(startedAt, seconds);
+    }
+    if (endedAt < startedAt) throw new RowError('ended_at is before started_at');
+
+    const tripId = fields.trip_id === undefined ? state.nextTripId++ : required(fields, 'trip_id', integer);
+    state.nextTripId = Math.max(state.nextTripId, tripId + 1);
+
+    const coordinates = ['start_lat', 'start_lng', 'end_lat', 'end_lng'].map(field => optional(fields, field, decimal));
+    const distance = optional(fields, 'trip_distance_km', decimal) ??
+      (coordinates.every(value => value !== null) ? haversineKm(coordinates as number[]) : null);
+
+    return [
+      tripId,
+      startedAt,
+      endedAt,
+      this.station(fields, 'start', state),
+      this.station(fields, 'end', state),
+      distance,
+      fields.rider_gender ? fields.rider_gender.toLowerCase() : null,
+      optional(fields, 'user_id', integer)
+    ];
+  }
+
+  private station(fields: Fields, role: 'start' | 'end', state: LoadState): number | null {
+    const code = fields[`${role}_station_id`] ?? null;
+    const name = fields[`${role}_station_name`] ?? null;
+    if (code === null && name === null) return null;
+
+    if (code !== null && isInteger(code)) {
+      const id = Number(code);
+      if (!state.stationIds.has(id)) {
+        if (name === null) throw new RowError(`${role}_station_id ${id} is not a known station`);
+        this.addStation(state, id, name);
+      }
+      return id;
+    }
+    const coded = code !== null ? state.stationIdsByCode.get(code) : undefined;
+    if (coded !== undefined) return coded;
+    if (name === null) throw new RowError(`${role}_station_id: expected an integer, got "${code}"`);
+
+    const known = state.stationIdsByName.get(name);
+    if (known !== undefined) return known;
+    const id = state.nextStationId;
+    this.addStation(state, id, name);
+    return id;
+  }
+
+  // Id of a station listed with a code that is not an integer: the one it was given before,
+  // or that of the station with its name, or a new one
+  private codedStation(code: string, name: string | null, state: LoadState): number {
+    if (name === null) throw new RowError(`station_id: expected an integer or a station_name, got "${code}"`);
+    const id = state.stationIdsByCode.get(code) ?? state.stationIdsByName.get(name) ?? state.nextStationId;
+    state.stationIdsByCode.set(code, id);
+    return id;
+  }
+
+  private addStation(state: LoadState, id: number, name: string): void {
+    state.stationIds.add(id);
+    state.stationIdsByName.set(name, id);
+    state.nextStationId = Math.max(state.nextStationId, id + 1);
+    state.newStations.push([id, name]);
+  }
+
+  private async loadState(): Promise<LoadState> {
+    const stations = await this.dataSource.executeQuery('SELECT station_id, station_name FROM stations');
+    const [{ max_trip_id }] = await this.dataSource.executeQuery('SELECT MAX(trip_id) AS max_trip_id FROM trips');
+    const ids = stations.map(station => Number(station.station_id));
+
+    return {
+      stationIds: new Set(ids),
+      stationIdsByName: new Map(stations.filter(s => s.station_name !== null).map(s => [s.station_name, Number(s.station_id)])),
+      stationIdsByCode: new Map(),
+      nextStationId: Math.max(0, ...ids) + 1,
+      nextTripId: Number(max_trip_id ?? 0) + 1,
+      numberedTrips: new Set(),
+      newStations: []
+    };
+  }
+
+  private async countRows(): Promise<{ [table: string]: number }> {
+    const counts: { [table: string]: number } = {};
+    for (const { table } of INGEST_KINDS.map(kind => TABLES[kind])) {
+      const [{ count }] = await this.dataSource.executeQuery(`SELECT COUNT(*) AS count FROM ${table}`);
+      // pg and DuckDB return counts as strings
+      counts[table] = Number(count);
+    }
+    return counts;
+  }
+
+  // Trips of `rows`, which have no id in their file, that were not in the table before
+  private async newTrips(execute: Execute, rows: unknown[][], state: LoadState): Promise<unknown[][]> {
+    const { dialect } = this.dataSource;
+    const starts = rows.map(row => row[1] as string).sort();
+    const existing = await execute(
+      `SELECT CAST(started_at AS VARCHAR) AS started_at, CAST(ended_at AS VARCHAR) AS ended_at, ` +
+        `start_station_id, end_station_id, user_id FROM trips ` +
+        `WHERE started_at BETWEEN ${dialect.cast(dialect.placeholder(1), 'timestamp')} AND ${dialect.cast(dialect.placeholder(2), 'timestamp')}`,
+      [starts[0], starts[starts.length - 1]]
+    );
+    const known = new Set(
+      existing
+        .map(trip => tripKey([trip.started_at, trip.ended_at, trip.start_station_id, trip.end_station_id, trip.user_id]))
+        .filter(key => !state.numberedTrips.has(key))
+    );
+
+    const fresh = rows.filter(row => !known.has(tripKey([row[1], row[2], row[3], row[4], row[7]])));
+    fresh.forEach(row => state.numberedTrips.add(tripKey([row[1], row[2], row[3], row[4], row[7]])));
+    return fresh;
+  }
+
+  private async insert(execute: Execute, table: string, columns: string[], rows: unknown[][]): Promise<void> {
+    const params: unknown[] = [];
+    const values = rows.map(row => `(${row.map(value => {
+      params.push(value);
+      return this.dataSource.dialect.placeholder(params.length);
+    }).join(', ')})`);
+
+    await execute(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${values.join(', ')} ON CONFLICT DO NOTHING`,
+      params
+    );
+  }
+}
+
+// Start, end, stations and rider of a trip, which tell trips without ids apart
+function tripKey(values: unknown[]): string {
+  return values.map(value => (value === null || value === undefined ? '' : String(value))).join('|');
+}
+
+function mapColumns(source: IngestSource, headers: string[]): { [field: string]: string } {
+  const byName = new Map<string, string>();
+  headers.forEach(header => {
+    const name = normalizeHeader(header);
+    if (!byName.has(name)) byName.set(name, header);
+  });
+
+  const columns: { [field: string]: string } = {};
+  Object.entries(FIELD_HEADERS[source.kind]).forEach(([field, names]) => {
+    const found = names.find(name => byName.has(name));
+    if (found) columns[field] = byName.get(found)!;
+  });
+
+  for (const alternatives of REQUIRED_FIELDS[source.kind]) {
+    if (!alternatives.some(field => columns[field])) {
+      const tried = alternatives.flatMap(field => FIELD_HEADERS[source.kind][field]);
+      throw new IngestError(`${source.name}: no column for ${alternatives.join(' or ')} (looked for ${tried.join(', ')})`);
+    }
+  }
+  return columns;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+function required<T>(fields: Fields, field: string, parse: (value: string, field: string) => T): T {
+  const value = fields[field];
+  if (value === null || value === undefined) throw new RowError(`${field} is missing`);
+  return parse(value, field);
+}
+
+function optional<T>(fields: Fields, field: string, parse: (value: string, field: string) => T): T | null {
+  const value = fields[field];
+  return value === null || value === undefined ? null : parse(value, field);
+}
+
+function isInteger(value: string): boolean {
+  // Parquet and spreadsheets write whole numbers as 72.0
+  return /^-?\d+(\.0+)?$/.test(value);
+}
+
+function integer(value: string, field: string): number {
+  if (!isInteger(value) || !Number.isSafeInteger(Number(value))) {
+    throw new RowError(`${field}: expected an integer, got "${value}"`);
+  }
+  return Number(value);
+}
+
+function decimal(value: string, field: string): number {
+  // Divvy writes durations over a thousand seconds as "1,234.0"
+  const number = Number(/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(value) ? value.replace(/,/g, '') : value);
+  if (!Number.isFinite(number)) throw new RowError(`${field}: expected a number, got "${value}"`);
+  return number;
+}
+
+const pad = (value: number | string, length: number = 2) => String(value).padStart(length, '0');
+
+function validDate(year: number, month: number, day: number): boolean {
+  return month >= 1 && month <= 12 && day >= 1 && day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// YYYY-MM-DD, M/D/YYYY as in older US files, or YYYYMMDD as in NOAA's
+function calendarDate(value: string, field: string): string {
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value) ||
+    /^(\d{4})(\d{2})(\d{2})$/.exec(value) ||
+    /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  if (match) {
+    const [year, month, day] = match[3].length === 4
+      ? [Number(match[3]), Number(match[1]), Number(match[2])]
+      : [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (validDate(year, month, day)) return `${year}-${pad(month)}-${pad(day)}`;
+  }
+  throw new RowError(`${field}: expected a date, got "${value}"`);
+}
+
+/**
+ * "YYYY-MM-DD HH:MM:SS", from ISO 8601 or M/D/YYYY H:MM. Time zone offsets are dropped:
+ * times are kept as the local times the files give.
+ */
+function timestamp(value: string, field: string): string {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(?:Z|UTC|[+-]\d{2}(?::?\d{2})?)?$/.exec(value);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(value);
+  const parts = iso
+    ? [iso[1], iso[2], iso[3], iso[4], iso[5], iso[6]]
+    : us ? [us[3], us[1], us[2], us[4], us[5], us[6]] : null;
+
+  if (parts) {
+    const [year, month, day, hour, minute, second] = parts.map(part => Number(part || 0));
+    if (validDate(year, month, day) && hour < 24 && minute < 60 && second < 60) {
+      return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}:${pad(second)}`;
+    }
+  }
+  throw new RowError(`${field}: expected a timestamp, got "${value}"`);
+}
+
+function addSeconds(value: string, seconds: number): string {
+  const time = new Date(Date.parse(`${value.replace(' ', 'T')}Z`) + Math.round(seconds) * 1000);
+  return time.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// Straight-line distance between [start lat, start lng, end lat, end lng], to 0.01 km
+function haversineKm([startLat, startLng, endLat, endLng]: number[]): number {
+  const radians = (degrees: number) => degrees * Math.PI / 180;
+  const a = Math.sin(radians(endLat - startLat) / 2) ** 2 +
+    Math.cos(radians(startLat)) * Math.cos(radians(endLat)) * Math.sin(radians(endLng - startLng) / 2) ** 2;
+  return Math.round(2 * 6371 * Math.asin(Math.sqrt(a)) * 100) / 100;
+}
+
+/**
+ * Records of a CSV file or text, keyed by the header row. Fields may be quoted, with `""`
+ * for a quote, and span lines.
+ */
+export async function* readCsv(input: AsyncIterable<string> | string): AsyncGenerator<Record<string, string>> {
+  let header: string[] | null = null;
+  for await (const fields of csvRows(typeof input === 'string' ? [input] : input)) {
+    if (!header) {
+      header = fields.map((name, i) => (i === 0 ? name.replace(/^\uFEFF/, '') : name));
+      continue;
+    }
+    if (fields.length === 1 && fields[0] === '') continue;
+
+    const record: Record<string, string> = {};
+    header.forEach((name, i) => {
+      record[name] = fields[i] ?? '';
+    });
+    yield record;
+  }
+}
+
+async function* csvRows(chunks: AsyncIterable<string> | Iterable<string>): AsyncGenerator<string[]> {
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  // Set on a quote inside a quoted field: another quote makes it a literal one
+  let closing = false;
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (quoted) {
+        if (closing) {
+          closing = false;
+          if (char === '"') {
+            field += char;
+            continue;
+          }
+          quoted = false;
+        } else {
+          if (char === '"') closing = true;
+          else field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n') {
+        row.push(field);
+        yield row;
+        row = [];
+        field = '';
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    yield row;
+  }
+}
+
+// Records of a Parquet file, read through DuckDB (an optional dependency)
+export async function* readParquet(filePath: string): AsyncGenerator<Record<string, unknown>> {
+  const { DuckDBInstance } = require('@duckdb/node-api') as typeof import('@duckdb/node-api');
+  const instance = await DuckDBInstance.create(':memory:');
+  const connection = await instance.connect();
+  try {
+    const result = await connection.stream('SELECT * FROM read_parquet($1)', [filePath]);
+    for await (const rows of result.yieldRowObjectJson()) {
+      yield* rows;
+    }
+  } finally {
+    connection.closeSync();
+    instance.closeSync();
+  }
+}
+
+// Stations of a GBFS station_information feed, as parsed JSON
+export async function* readGbfsStations(feed: any): AsyncGenerator<Record<string, unknown>> {
+  const stations = feed?.data?.stations;
+  if (!Array.isArray(stations)) {
+    throw new IngestError('Not a GBFS station_information feed: data.stations is missing');
+  }
+  yield* stations;
+}
+
+// A file by its extension: .parquet, .json (GBFS stations) or CSV otherwise
+export function readIngestFile(kind: IngestKind, filePath: string): IngestSource {
+  const name = path.basename(filePath);
+  if (!fs.existsSync(filePath)) {
+    throw new IngestError(`${filePath} does not exist`);
+  }
+
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.parquet':
+      return { kind, name, records: readParquet(filePath) };
+    case '.json':
+      return { kind, name, records: readGbfsStations(JSON.parse(fs.readFileSync(filePath, 'utf8'))) };
+    default:
+      return { kind, name, records: readCsv(fs.createReadStream(filePath, 'utf8') as AsyncIterable<string>) };
+  }
+}
+
+export function formatIngestReport(report: IngestReport): string {
+  const lines = report.sources.map(source =>
+    `${source.source} (${source.kind}): ${source.accepted} of ${source.rows} rows accepted, ${source.rejected} rejected`
+  );
+  lines.push(`Inserted: ${Object.entries(report.inserted).map(([table, count]) => `${count} into ${table}`).join(', ')}`);
+
+  if (report.rejectedRows.length > 0) {
+    lines.push('', 'Rejected rows:');
+    report.rejectedRows.forEach(rejected => lines.push(`  ${rejected.source} row ${rejected.row}: ${rejected.reason}`));
+    const total = report.sources.reduce((sum, source) => sum + source.rejected, 0);
+    if (total > report.rejectedRows.length) lines.push(`  ... and ${total - report.rejectedRows.length} more`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,200 @@
+import { TableInfo } from './database_service';
+import { Expression, Join, JoinCondition, column, renameTables } from './query_plan';
+import { JoinDefinition, toExpression } from './semantic_model';
+
+export interface JoinEdge {
+  from: string;
+  to: string;
+  // Which side of the relationship `to` plays, e.g. "start" for trips.start_station_id
+  role: string | null;
+  type: 'INNER' | 'LEFT';
+  on: JoinCondition[];
+}
+
+export interface TableRole {
+  table: string;
+  role: string | null;
+}
+
+/**
+ * Undirected graph of the tables a question can touch. Edges come from introspected
+ * foreign keys plus the joins declared in the semantic model (relationships such as
+ * trips → daily_weather on the trip date that have no constraint).
+ */
+export class JoinGraph {
+  private edges: JoinEdge[] = [];
+
+  constructor(schema: TableInfo[], declaredJoins: JoinDefinition[] = [], factTable?: string) {
+    for (const table of schema) {
+      for (const foreignKey of table.foreign_keys || []) {
+        this.addEdge({
+          from: table.table_name,
+          to: foreignKey.foreign_table,
+          role: foreignKey.columns.length === 1
+            ? this.roleFromColumn(foreignKey.columns[0], foreignKey.foreign_columns[0], foreignKey.foreign_table)
+            : null,
+          type: 'LEFT',
+          on: foreignKey.columns.map((columnName, index) => ({
+            left: column(table.table_name, columnName),
+            right: column(foreignKey.foreign_table, foreignKey.foreign_columns[index])
+          }))
+        });
+      }
+    }
+
+    for (const join of declaredJoins) {
+      const left = toExpression(join.left);
+      const from = this.sourceTable(left, join.table) || factTable;
+      if (!from) continue;
+
+      this.addEdge({
+        from,
+        to: join.table,
+        role: join.role || null,
+        type: join.type || 'LEFT',
+        on: [{ left, right: toExpression(join.right) }]
+      });
+    }
+  }
+
+  getEdges(): JoinEdge[] {
+    return this.edges;
+  }
+
+  aliasFor(table: string, role: string | null): string {
+    return role ? `${role}_${table}` : table;
+  }
+
+  // Maps a table name or role alias ("end_stations") back to its table and role
+  resolveAlias(name: string): TableRole {
+    const edge = this.edges.find(e => e.role && this.aliasFor(e.to, e.role) === name);
+    return edge ? { table: edge.to, role: edge.role } : { table: name, role: null };
+  }
+
+  rolesOf(table: string): string[] {
+    return [...new Set(this.edges.filter(e => e.to === table && e.role).map(e => e.role!))];
+  }
+
+  /**
+   * Shortest join path from `from` to `to` (breadth-first). When several edges lead into
+   * `to`, the one playing `role` is preferred.
+   */
+  findPath(from: string, to: string, role: string | null = null): JoinEdge[] | null {
+    if (from === to) return [];
+
+    const previous = new Map<string, string>([[from, from]]);
+    const queue = [from];
+
+    while (queue.length > 0) {
+      const table = queue.shift()!;
+      if (table === to) break;
+
+      for (const neighbour of this.neighbours(table)) {
+        if (!previous.has(neighbour)) {
+          previous.set(neighbour, table);
+          queue.push(neighbour);
+        }
+      }
+    }
+
+    if (!previous.has(to)) return null;
+
+    const tables = [to];
+    while (tables[0] !== from) {
+      tables.unshift(previous.get(tables[0])!);
+    }
+
+    const path: JoinEdge[] = [];
+    for (let i = 1; i < tables.length; i++) {
+      const candidates = this.edgesBetween(tables[i - 1], tables[i]);
+      const isLast = i === tables.length - 1;
+      const edge = (isLast && role ? candidates.find(e => e.role === role) : undefined)
+        || candidates.find(e => e.role === null)
+        || candidates[0];
+      path.push(edge);
+    }
+    return path;
+  }
+
+  /**
+   * Turns a path into joins starting from `fromAlias`, rewriting each condition to the
+   * aliases on either side.
+   */
+  toJoins(path: JoinEdge[], fromAlias: string): Join[] {
+    const joins: Join[] = [];
+    let currentAlias = fromAlias;
+
+    for (const edge of path) {
+      const alias = this.aliasFor(edge.to, edge.role);
+      const aliases = { [edge.from]: currentAlias, [edge.to]: alias };
+      joins.push({
+        table: edge.to,
+        alias,
+        type: edge.type,
+        on: edge.on.map(condition => ({
+          left: renameTables(condition.left, aliases),
+          right: renameTables(condition.right, aliases)
+        }))
+      });
+      currentAlias = alias;
+    }
+
+    return joins;
+  }
+
+  private addEdge(edge: JoinEdge): void {
+    // The same relationship can be both a foreign key and a declared join
+    const key = JSON.stringify([edge.from, edge.to, edge.on]);
+    const existing = this.edges.find(e => JSON.stringify([e.from, e.to, e.on]) === key);
+    if (existing) {
+      existing.role = existing.role || edge.role;
+      return;
+    }
+    this.edges.push(edge);
+  }
+
+  private neighbours(table: string): string[] {
+    return this.edges.flatMap(e => e.from === table ? [e.to] : e.to === table ? [e.from] : []);
+  }
+
+  // Edges oriented from `from` to `to`, flipping foreign keys followed backwards
+  private edgesBetween(from: string, to: string): JoinEdge[] {
+    return this.edges.flatMap(e => {
+      if (e.from === from && e.to === to) return [e];
+      if (e.from === to && e.to === from) {
+        return [{ ...e, from, to, role: null, on: e.on.map(c => ({ left: c.right, right: c.left })) }];
+      }
+      return [];
+    });
+  }
+
+  private sourceTable(expression: Expression, target: string): string | null {
+    switch (expression.kind) {
+      case 'column':
+        return expression.table !== target ? expression.table : null;
+      case 'duration_minutes':
+        return expression.start.table;
+      case 'date':
+      case 'date_part':
+        return expression.of.table;
+      case 'raw':
+        return expression.tables.find(t => t !== target) || null;
+    }
+  }
+
+  // start_station_id → stations.station_id plays the "start" role; user_id → users.id plays none
+  private roleFromColumn(columnName: string, foreignColumn: string, foreignTable: string): string | null {
+    let prefix: string;
+    if (columnName === foreignColumn) return null;
+    if (columnName.endsWith(`_${foreignColumn}`)) {
+      prefix = columnName.slice(0, -(foreignColumn.length + 1));
+    } else if (columnName.endsWith('_id')) {
+      prefix = columnName.slice(0, -3);
+    } else {
+      return null;
+    }
+
+    const singular = foreignTable.replace(/s$/, '');
+    return prefix && prefix !== singular && prefix !== foreignTable ? prefix : null;
+  }
+}
@@ -0,0 +1,142 @@
+import { TableInfo } from './database_service';
+import { SemanticMapper } from './semantic_mapper';
+import { SQLValidator } from './sql_validator';
+import { SqlCandidate, SqlGenerationStrategy } from './sql_generation_strategy';
+import { QueryError } from './query_error';
+import { POSTGRES, SqlDialect } from './sql_dialect';
+
+export interface LLMStrategyOptions {
+  // Base URL of an OpenAI-compatible API, e.g. https://api.openai.com/v1
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  timeoutMs?: number;
+  // Used when the model does not report how sure it is
+  defaultConfidence?: number;
+  // Anchor for relative dates, like DateParser's
+  referenceDate?: Date;
+  // Database the SQL is written for; Postgres by default
+  dialect?: SqlDialect;
+}
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+/**
+ * Lists tables with their columns and keys, one table per line, for a model to write
+ * SQL against.
+ */
+export function buildSchemaPrompt(schema: TableInfo[]): string {
+  return schema.map(table => {
+    const columns = table.columns.map(c => `${c.column_name} ${c.data_type}`).join(', ');
+    const primaryKey = table.primary_key && table.primary_key.length > 0
+      ? [`  primary key (${table.primary_key.join(', ')})`]
+      : [];
+    const foreignKeys = (table.foreign_keys || []).map(fk =>
+      `  (${fk.columns.join(', ')}) references ${fk.foreign_table} (${fk.foreign_columns.join(', ')})`
+    );
+    return [`${table.table_name} (${columns})`, ...primaryKey, ...foreignKeys].join('\n');
+  }).join('\n');
+}
+
+/**
+ * Asks a chat completion endpoint for the SQL. The answer must pass the validator, so
+ * the model cannot reach tables, columns or functions the rule-based planner could not.
+ */
+export class LLMStrategy implements SqlGenerationStrategy {
+  readonly name = 'llm';
+  private semanticMapper: SemanticMapper;
+  private validator: SQLValidator;
+  private options: LLMStrategyOptions;
+
+  constructor(semanticMapper: SemanticMapper, validator: SQLValidator, options: LLMStrategyOptions) {
+    this.semanticMapper = semanticMapper;
+    this.validator = validator;
+    this.options = options;
+  }
+
+  async generate(question: string): Promise<SqlCandidate> {
+    const content = await this.complete(question);
+    const { sql, confidence } = this.parseAnswer(content);
+
+    this.validator.validate(sql);
+    return { strategy: this.name, sql, params: [], confidence };
+  }
+
+  private async complete(question: string): Promise<string> {
+    const { baseUrl, apiKey, model, timeoutMs = 15000 } = this.options;
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          messages: [
+            { role: 'system', content: this.systemPrompt() },
+            { role: 'user', content: question }
+          ]
+        }),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+    } catch (error) {
+      throw new QueryError('GENERATION_FAILED', `Model endpoint unreachable: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!response.ok) {
+      throw new QueryError('GENERATION_FAILED', `Model endpoint returned ${response.status}`);
+    }
+
+    const completion = await response.json() as ChatCompletion;
+    const content = completion.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new QueryError('GENERATION_FAILED', 'Model returned no answer');
+    }
+    return content;
+  }
+
+  private systemPrompt(): string {
+    const today = (this.options.referenceDate || new Date()).toISOString().slice(0, 10);
+
+    return [
+      `You translate questions about a ${(this.options.dialect || POSTGRES).title} database into one read-only SELECT statement.`,
+      'Use only these tables and columns:',
+      buildSchemaPrompt(this.semanticMapper.getSchema()),
+      `Only these functions are allowed: ${this.validator.allowedFunctions().join(', ').toUpperCase()}.`,
+      'Do not use comments, subqueries, WITH, UNION or semicolons. Write values inline as literals.',
+      `Today is ${today}.`,
+      'Answer with JSON only: {"sql": "<the query>", "confidence": <0 to 1, how sure you are the query answers the question>}'
+    ].join('\n');
+  }
+
+  private parseAnswer(content: string): { sql: string; confidence: number } {
+    // Models often wrap answers in code fences despite being asked not to
+    const text = content.trim().replace(/^```\w*\s*/, '').replace(/\s*```$/, '');
+    const fallbackConfidence = this.options.defaultConfidence ?? 0.6;
+
+    let sql: string;
+    let confidence = fallbackConfidence;
+    try {
+      const answer = JSON.parse(text);
+      sql = String(answer.sql || '');
+      if (typeof answer.confidence === 'number') {
+        confidence = Math.min(1, Math.max(0, answer.confidence));
+      }
+    } catch {
+      // Plain SQL instead of JSON
+      sql = text;
+    }
+
+    sql = sql.trim().replace(/;\s*$/, '');
+    if (!sql) {
+      throw new QueryError('GENERATION_FAILED', 'Model returned no SQL');
+    }
+    return { sql, confidence };
+  }
+}
@@ -0,0 +1,69 @@
+import dotenv from 'dotenv';
+import { ApiKeyLimits, ApiKeyStore } from './api_keys';
+
+const USAGE = `Usage: npm run keys -- create <name> [--rate <queries per minute>] [--quota <queries per day>]
+       npm run keys -- list
+       npm run keys -- revoke <id or name>
+
+Manages the API keys of the /query endpoints, in the file at API_KEYS_PATH. A new key is
+printed once; only its hash is stored. A running server picks up changes to the file.`;
+
+function main(args: string[]): number {
+  const path = process.env.API_KEYS_PATH;
+  if (!path) {
+    console.error('Set API_KEYS_PATH to the file keeping the keys');
+    return 2;
+  }
+  const store = new ApiKeyStore(path);
+  const [command, ...rest] = args;
+
+  switch (command) {
+    case 'create': {
+      const [name, ...options] = rest;
+      const limits = name && !name.startsWith('--') ? parseLimits(options) : null;
+      if (!limits) break;
+      const { key, apiKey } = store.create(name, limits);
+      console.log(`Created key ${apiKey.id} for ${apiKey.name}, ${apiKey.ratePerMinute} queries per minute and ${apiKey.dailyQuota} per day:`);
+      console.log(key);
+      return 0;
+    }
+    case 'list':
+      if (rest.length > 0) break;
+      for (const apiKey of store.list()) {
+        const status = apiKey.revokedAt ? `revoked ${apiKey.revokedAt}` : `${apiKey.ratePerMinute}/min, ${apiKey.dailyQuota}/day`;
+        console.log(`${apiKey.id}  ${apiKey.name}  created ${apiKey.createdAt}  ${status}`);
+      }
+      return 0;
+    case 'revoke':
+      if (rest.length !== 1) break;
+      if (!store.revoke(rest[0])) {
+        console.error(`No active key ${rest[0]}`);
+        return 1;
+      }
+      console.log(`Revoked ${rest[0]}`);
+      return 0;
+  }
+  console.error(USAGE);
+  return 2;
+}
+
+// --rate and --quota as positive integers, or null
+function parseLimits(args: string[]): ApiKeyLimits | null {
+  const limits: ApiKeyLimits = {};
+  for (let i = 0; i < args.length; i += 2) {
+    const value = args[i + 1];
+    if (!value || !/^[1-9]\d*$/.test(value)) return null;
+    if (args[i] === '--rate') {
+      limits.ratePerMinute = parseInt(value, 10);
+    } else if (args[i] === '--quota') {
+      limits.dailyQuota = parseInt(value, 10);
+    } else {
+      return null;
+    }
+  }
+  return limits;
+}
+
+dotenv.config();
+
+process.exit(main(process.argv.slice(2)));
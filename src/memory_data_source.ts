@@ -0,0 +1,178 @@
+import { Pool } from 'pg';
+import { DataType, IMemoryDb, newDb } from 'pg-mem';
+import { DataSource, Execute, ExecutionLimits, ReadOnlyResult, TableInfo } from './database_service';
+import { QueryError } from './query_error';
+import { PostgresDialect, SqlDialect } from './sql_dialect';
+
+// pg-mem ignores FILTER (WHERE ...), so filtered aggregates pick their rows with CASE
+class MemoryDialect extends PostgresDialect {
+  filteredAggregate(aggregate: string, argument: string, condition: string): string {
+    return argument === '*'
+      ? `SUM(CASE WHEN ${condition} THEN 1 ELSE 0 END)`
+      : `${aggregate}(CASE WHEN ${condition} THEN ${argument} END)`;
+  }
+}
+
+/**
+ * A DataSource held in memory by pg-mem, for tests and local runs without Postgres. Tables
+ * are created from `schema` and filled by the `seed` SQL.
+ *
+ * pg-mem has no read-only transactions or cursors to enforce the execution limits with:
+ * anything but a SELECT is refused, statements are not timed out, and EXPLAIN returns no plan,
+ * running the query with LIMIT 0 instead. It lacks a few functions the renderer uses, which
+ * are registered here, and ignores `FILTER (WHERE ...)` on aggregates, which its dialect
+ * renders with CASE instead. It also mixes up grouped columns sharing a name, such as the
+ * start and end station of a route, so such queries are refused rather than answered wrongly.
+ */
+export class MemoryDataSource implements DataSource {
+  readonly dialect: SqlDialect = new MemoryDialect();
+  private schema: TableInfo[];
+  private db: IMemoryDb;
+  // pg-mem's stand-in for the pg module's Pool
+  private pool: Pool;
+
+  constructor(schema: TableInfo[], seed: string = '') {
+    this.schema = schema;
+    this.db = newDb();
+    registerFunctions(this.db);
+    this.db.public.none(schema.map(createTable).join('\n') + seed);
+    const { Pool } = this.db.adapters.createPg();
+    this.pool = new Pool();
+  }
+
+  async getSchema(): Promise<TableInfo[]> {
+    return this.schema;
+  }
+
+  async getDistinctValues(table: string, column: string, limit: number): Promise<string[]> {
+    const rows = await this.executeQuery(
+      `SELECT DISTINCT ${column}::text AS value FROM ${table} WHERE ${column} IS NOT NULL LIMIT $1`,
+      [limit]
+    );
+    return rows.map(row => row.value);
+  }
+
+  // Any statement, including writes; generated SQL goes through the read-only methods
+  async executeQuery(sql: string, params: any[] = []): Promise<any[]> {
+    const result = await this.pool.query(sql, params);
+    return result.rows;
+  }
+
+  // pg-mem ignores ROLLBACK, so a failed transaction restores a backup taken before it
+  async transaction<T>(run: (execute: Execute) => Promise<T>): Promise<T> {
+    const backup = this.db.backup();
+    try {
+      return await run((sql, params) => this.executeQuery(sql, params));
+    } catch (error) {
+      backup.restore();
+      throw error;
+    }
+  }
+
+  async executeReadOnly(sql: string, params: any[], limits: ExecutionLimits): Promise<ReadOnlyResult> {
+    const rows = await this.select(sql, params);
+    if (rows.length <= limits.maxRows) {
+      return { rows, truncated: false, totalCount: rows.length };
+    }
+    return { rows: rows.slice(0, limits.maxRows), truncated: true, totalCount: rows.length };
+  }
+
+  async streamReadOnly(
+    sql: string,
+    params: any[],
+    limits: ExecutionLimits,
+    batchSize: number,
+    onRows: (rows: any[]) => Promise<void> | void
+  ): Promise<number> {
+    const rows = await this.select(sql, params);
+    for (let start = 0; start < rows.length; start += batchSize) {
+      await onRows(rows.slice(start, start + batchSize));
+    }
+    return rows.length;
+  }
+
+  // pg-mem has no EXPLAIN, and its prepare() cannot plan parameters compared with indexed
+  // columns, so the query does run, under LIMIT 0: that checks it and returns no rows
+  async explain(sql: string, params: any[], limits: ExecutionLimits): Promise<string[]> {
+    this.check(sql);
+    await this.executeQuery(`SELECT * FROM (${sql.replace(/;\s*$/, '')}) AS explained LIMIT 0`, params);
+    return [];
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private async select(sql: string, params: any[]): Promise<any[]> {
+    this.check(sql);
+    return this.executeQuery(sql, params);
+  }
+
+  // Refuses what the in-memory database should not or cannot run correctly
+  private check(sql: string): void {
+    if (!/^\s*(SELECT|WITH)\b/i.test(sql)) {
+      throw new QueryError('READ_ONLY_VIOLATION', 'Query tried to modify data');
+    }
+    const column = sharedGroupedColumn(sql);
+    if (column) {
+      throw new QueryError('UNSUPPORTED_QUESTION', `The in-memory database cannot group by two columns named ${column}`);
+    }
+  }
+}
+
+// A column name grouped on under two tables, e.g. "station_name" of a route, or null
+function sharedGroupedColumn(sql: string): string | null {
+  const groupBy = /\bGROUP BY\s+(.+?)(?:\s+(?:HAVING|ORDER BY|LIMIT)\b|\)|$)/i.exec(sql);
+  if (!groupBy) return null;
+  const seen = new Set<string>();
+  for (const item of groupBy[1].split(',')) {
+    const column = /^\s*\w+\.(\w+)\s*$/.exec(item);
+    if (!column) continue;
+    if (seen.has(column[1].toLowerCase())) return column[1];
+    seen.add(column[1].toLowerCase());
+  }
+  return null;
+}
+
+// CREATE TABLE for a table as introspected, in SQL that Postgres, DuckDB and SQLite all read
+export function createTable(table: TableInfo): string {
+  const primaryKey = table.primary_key && table.primary_key.length > 0 ? [`PRIMARY KEY (${table.primary_key.join(', ')})`] : [];
+  const foreignKeys = (table.foreign_keys || []).map(fk =>
+    `FOREIGN KEY (${fk.columns.join(', ')}) REFERENCES ${fk.foreign_table} (${fk.foreign_columns.join(', ')})`
+  );
+  const columns = table.columns.map(c => `${c.column_name} ${c.data_type}${c.is_nullable === 'NO' ? ' NOT NULL' : ''}`);
+  return `CREATE TABLE ${table.table_name} (${[...columns, ...primaryKey, ...foreignKeys].join(', ')});`;
+}
+
+function registerFunctions(db: IMemoryDb): void {
+  const schema = db.public;
+
+  schema.registerFunction({
+    name: 'date',
+    args: [DataType.timestamp],
+    returns: DataType.date,
+    implementation: (value: Date) => new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()))
+  });
+  // pg-mem has no timestamp arithmetic; EXTRACT(EPOCH FROM interval) reads the seconds back
+  schema.registerOperator({
+    operator: '-',
+    left: DataType.timestamp,
+    right: DataType.timestamp,
+    returns: DataType.interval,
+    implementation: (end: Date, start: Date) => ({ seconds: (end.getTime() - start.getTime()) / 1000 })
+  });
+  for (const type of [DataType.float, DataType.bigint]) {
+    schema.registerFunction({
+      name: 'round',
+      args: [type],
+      returns: DataType.float,
+      implementation: (value: number) => Math.round(Number(value))
+    });
+    schema.registerFunction({
+      name: 'round',
+      args: [type, DataType.integer],
+      returns: DataType.float,
+      implementation: (value: number, digits: number) => Math.round(Number(value) * 10 ** digits) / 10 ** digits
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import { createHash } from 'crypto';
+import { QueryError } from './query_error';
+
+export interface PageInfo {
+  limit: number;
+  offset: number;
+  // Pass back with the same question for the next page; null on the last page
+  nextCursor: string | null;
+}
+
+export interface Page<T> {
+  rows: T[];
+  page: PageInfo;
+}
+
+/**
+ * Slices rows into pages. Cursors are opaque to clients: they carry the offset and a hash
+ * of the query, so a cursor cannot be replayed against a different question.
+ */
+export function paginate<T>(rows: T[], queryKey: string, limit: number, cursor?: string): Page<T> {
+  const offset = cursor ? decodeCursor(cursor, queryKey) : 0;
+  const end = offset + limit;
+
+  return {
+    rows: rows.slice(offset, end),
+    page: { limit, offset, nextCursor: end < rows.length ? encodeCursor(end, queryKey) : null }
+  };
+}
+
+export function queryKey(sql: string, params: any[]): string {
+  return createHash('sha256').update(JSON.stringify([sql, params])).digest('hex').slice(0, 16);
+}
+
+export function encodeCursor(offset: number, key: string): string {
+  return Buffer.from(JSON.stringify({ offset, key })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, key: string): number {
+  let decoded: { offset?: unknown; key?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new QueryError('INVALID_CURSOR', 'Cursor is malformed');
+  }
+
+  if (decoded.key !== key) {
+    throw new QueryError('INVALID_CURSOR', 'Cursor belongs to a different query');
+  }
+  if (typeof decoded.offset !== 'number' || !Number.isInteger(decoded.offset) || decoded.offset < 0) {
+    throw new QueryError('INVALID_CURSOR', 'Cursor is malformed');
+  }
+  return decoded.offset;
+}
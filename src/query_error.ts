@@ -0,0 +1,24 @@
+export type QueryErrorCode =
+  | 'INVALID_SQL'
+  | 'MULTIPLE_STATEMENTS'
+  | 'NOT_SELECT'
+  | 'FORBIDDEN_KEYWORD'
+  | 'TABLE_NOT_ALLOWED'
+  | 'COLUMN_NOT_ALLOWED'
+  | 'FUNCTION_NOT_ALLOWED'
+  | 'STATEMENT_TIMEOUT'
+  | 'READ_ONLY_VIOLATION'
+  | 'GENERATION_FAILED'
+  | 'INVALID_CURSOR'
+  | 'UNSUPPORTED_QUESTION';
+
+// An error with a code clients can act on, returned as `errorCode` in QueryResponse
+export class QueryError extends Error {
+  readonly code: QueryErrorCode;
+
+  constructor(code: QueryErrorCode, message: string) {
+    super(message);
+    this.name = 'QueryError';
+    this.code = code;
+  }
+}
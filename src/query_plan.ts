@@ -0,0 +1,207 @@
+import { QueryIntent } from './semantic_mapper';
+
+export type AggregateFunction = 'count' | 'avg' | 'sum' | 'max' | 'min';
+
+export type DatePart = 'hour' | 'dow' | 'day' | 'week' | 'month' | 'year';
+
+export type Expression =
+  | ColumnExpression
+  | DurationExpression
+  | DateExpression
+  | DatePartExpression
+  | RawExpression;
+
+export interface ColumnExpression {
+  kind: 'column';
+  table: string;
+  column: string;
+}
+
+// Minutes elapsed between two timestamp columns
+export interface DurationExpression {
+  kind: 'duration_minutes';
+  start: ColumnExpression;
+  end: ColumnExpression;
+}
+
+// Calendar date of a timestamp column
+export interface DateExpression {
+  kind: 'date';
+  of: ColumnExpression;
+}
+
+export interface DatePartExpression {
+  kind: 'date_part';
+  part: DatePart;
+  of: ColumnExpression;
+}
+
+// Trusted SQL from the planner or the semantic model, never from user input. `tables` lists the
+// table aliases it references so joins can be resolved.
+export interface RawExpression {
+  kind: 'raw';
+  sql: string;
+  tables: string[];
+}
+
+export interface Measure {
+  alias: string;
+  // Metric of the semantic model computed, when the alias names another unit
+  metric?: string;
+  // null when the expression already aggregates
+  aggregate: AggregateFunction | null;
+  // null aggregates every row, as in COUNT(*)
+  expression: Expression | null;
+  precision?: number;
+  // Unit of the value, after any conversion
+  unit?: string;
+  // Multiplies the aggregate to convert it from the metric's unit to `unit`
+  scale?: number;
+  // Only rows matching every filter are aggregated, as in COUNT(*) FILTER (WHERE ...)
+  filters?: Filter[];
+}
+
+export interface Dimension {
+  alias: string;
+  expression: Expression;
+}
+
+export type FilterOperator = '=' | '<>' | '>' | '>=' | '<' | '<=' | 'ILIKE';
+
+export type Filter = ComparisonFilter | RangeFilter | AnyFilter | AllFilter;
+
+export interface ComparisonFilter {
+  kind: 'comparison';
+  field: string;
+  expression: Expression;
+  operator: FilterOperator;
+  value: string | number | boolean;
+  cast?: 'timestamp';
+}
+
+// Inclusive on both ends; a timestamp `to` takes in the whole of its second, fractions included
+export interface RangeFilter {
+  kind: 'range';
+  field: string;
+  expression: Expression;
+  from: string | number;
+  to: string | number;
+  cast?: 'timestamp';
+}
+
+// Matches when any of the nested filters matches
+export interface AnyFilter {
+  kind: 'any';
+  field: string;
+  filters: Filter[];
+}
+
+// Matches when every nested filter matches
+export interface AllFilter {
+  kind: 'all';
+  field: string;
+  filters: Filter[];
+}
+
+export interface TableReference {
+  table: string;
+  alias: string;
+}
+
+export interface JoinCondition {
+  left: Expression;
+  right: Expression;
+}
+
+export interface Join extends TableReference {
+  type: 'INNER' | 'LEFT';
+  // Conditions are ANDed
+  on: JoinCondition[];
+}
+
+export interface OrderBy {
+  // Alias of a measure or dimension
+  alias: string;
+  direction: 'ASC' | 'DESC';
+}
+
+export interface Cohort {
+  label: string;
+  // Alias of the measure aggregating this cohort
+  alias: string;
+}
+
+// Two cohorts of one metric, e.g. June against May
+export interface Comparison {
+  metric: string;
+  cohorts: Cohort[];
+}
+
+export interface QueryPlan {
+  intent: QueryIntent;
+  from: TableReference;
+  measures: Measure[];
+  dimensions: Dimension[];
+  filters: Filter[];
+  joins: Join[];
+  orderBy: OrderBy[];
+  limit: number | null;
+  comparison?: Comparison;
+}
+
+export function column(table: string, columnName: string): ColumnExpression {
+  return { kind: 'column', table, column: columnName };
+}
+
+export function referencedTables(expression: Expression | null): string[] {
+  if (!expression) return [];
+
+  switch (expression.kind) {
+    case 'column':
+      return [expression.table];
+    case 'duration_minutes':
+      return [expression.start.table, expression.end.table];
+    case 'date':
+    case 'date_part':
+      return [expression.of.table];
+    case 'raw':
+      return expression.tables;
+  }
+}
+
+export function filterTables(filter: Filter): string[] {
+  if (filter.kind === 'any' || filter.kind === 'all') {
+    return filter.filters.flatMap(filterTables);
+  }
+  return referencedTables(filter.expression);
+}
+
+// Points table references at aliases, e.g. stations → start_stations
+export function renameTables(expression: Expression, aliases: { [table: string]: string }): Expression {
+  const rename = (table: string) => aliases[table] || table;
+  const renameColumn = (ref: ColumnExpression): ColumnExpression => ({ ...ref, table: rename(ref.table) });
+
+  switch (expression.kind) {
+    case 'column':
+      return renameColumn(expression);
+    case 'duration_minutes':
+      return { ...expression, start: renameColumn(expression.start), end: renameColumn(expression.end) };
+    case 'date':
+    case 'date_part':
+      return { ...expression, of: renameColumn(expression.of) };
+    case 'raw': {
+      let sql = expression.sql;
+      for (const [table, alias] of Object.entries(aliases)) {
+        sql = sql.replace(new RegExp(`\\b${table}\\.`, 'g'), `${alias}.`);
+      }
+      return { ...expression, sql, tables: expression.tables.map(rename) };
+    }
+  }
+}
+
+export function renameFilterTables(filter: Filter, aliases: { [table: string]: string }): Filter {
+  if (filter.kind === 'any' || filter.kind === 'all') {
+    return { ...filter, filters: filter.filters.map(f => renameFilterTables(f, aliases)) };
+  }
+  return { ...filter, expression: renameTables(filter.expression, aliases) };
+}
@@ -0,0 +1,491 @@
+import { SemanticMapper, SemanticContext, QueryIntent, ColumnMapping } from './semantic_mapper';
+import { DateParser, toSqlTimestamp, withDefaultYear } from './date_parser';
+import { MetricDefinition, toExpression } from './semantic_model';
+import { requestedUnit, conversionFactor, findUnit } from './units';
+import { QueryError } from './query_error';
+import {
+  AggregateFunction,
+  QueryPlan,
+  Measure,
+  Dimension,
+  Filter,
+  Join,
+  OrderBy,
+  column,
+  referencedTables,
+  filterTables,
+  renameTables,
+  renameFilterTables
+} from './query_plan';
+
+export class QueryPlanner {
+  private semanticMapper: SemanticMapper;
+  private dateParser: DateParser;
+
+  constructor(semanticMapper: SemanticMapper, dateParser: DateParser) {
+    this.semanticMapper = semanticMapper;
+    this.dateParser = dateParser;
+  }
+
+  buildPlan(question: string, previous: QueryPlan | null = null): QueryPlan {
+    const context = this.semanticMapper.buildSemanticContext(question);
+
+    if (previous && context.intent !== QueryIntent.COMPARE && this.continuesConversation(question, context)) {
+      return this.buildFollowUp(question, context, previous);
+    }
+
+    const mappings = this.semanticMapper.findBestColumnMatches(context.userWords);
+    const factTable = this.semanticMapper.getSemanticModel().fact_table;
+
+    if (context.intent === QueryIntent.COMPARE) {
+      return this.resolveJoins(this.buildComparison(question, context), context.roles);
+    }
+
+    const measures = this.buildMeasures(question, context);
+    const dimensions = this.buildDimensions(question, context, mappings);
+    const filters = this.buildFilters(question);
+    const { orderBy, limit } = this.buildOrdering(context, measures, dimensions);
+
+    return this.resolveJoins({
+      intent: context.intent,
+      from: { table: factTable, alias: factTable },
+      measures,
+      dimensions,
+      filters,
+      joins: [],
+      orderBy,
+      limit
+    }, context.roles);
+  }
+
+  /**
+   * Resolves a follow-up against the previous plan: filters in the follow-up replace
+   * filters on the same field or are added, removed fields are dropped, and a new metric
+   * or breakdown replaces the previous one.
+   */
+  buildFollowUp(question: string, context: SemanticContext, previous: QueryPlan): QueryPlan {
+    const removals = this.semanticMapper.findRemovals(question);
+    let filters = previous.filters.filter(filter => !removals.some(word => this.filterMatches(filter, word)));
+
+    // "and what about July?" after a question about June 2025 means July 2025
+    const previousDate = previous.filters.find(f => f.field === 'date');
+    const previousRange = previousDate && previousDate.kind === 'any' ? previousDate.filters[0] : previousDate;
+    const dated = previousRange && previousRange.kind === 'range'
+      ? withDefaultYear(question, parseInt(String(previousRange.from).slice(0, 4)))
+      : question;
+
+    for (const filter of this.buildFilters(dated)) {
+      filters = [...filters.filter(f => f.field !== filter.field), filter];
+    }
+
+    const plan: QueryPlan = { ...previous, filters };
+    const asked = context.intent === QueryIntent.FILTER || context.intent === QueryIntent.LIST ? previous.intent : context.intent;
+    const followUp = { ...context, intent: asked };
+
+    if (context.breakdowns.length > 0 || context.ranking) {
+      // "top 3" on its own ranks the previous grouping
+      const dimensions = this.buildDimensions(question, followUp, []);
+      if (dimensions.length > 0) plan.dimensions = dimensions;
+    }
+
+    if (this.semanticMapper.findMetrics(question).length > 0) {
+      const [measure] = this.buildMeasures(question, { ...followUp, breakdowns: plan.dimensions.map(d => d.alias) });
+      if (measure && previous.comparison) {
+        // Keep the cohorts, aggregating the new metric in each
+        plan.measures = previous.measures.map((m, index) => ({ ...measure, alias: `${measure.alias}_${index + 1}`, filters: m.filters }));
+        plan.comparison = {
+          metric: measure.alias,
+          cohorts: previous.comparison.cohorts.map((cohort, index) => ({ ...cohort, alias: plan.measures[index].alias }))
+        };
+      } else if (measure) {
+        plan.measures = [measure];
+        plan.intent = asked;
+      }
+    }
+
+    if (context.ranking || plan.dimensions !== previous.dimensions || plan.measures !== previous.measures) {
+      Object.assign(plan, this.buildOrdering(followUp, plan.measures, plan.dimensions));
+    }
+
+    return this.resolveJoins(plan, context.roles);
+  }
+
+  // Follow-ups either say so ("and for women?") or only refine the previous question
+  // ("July?", "top 3"). Questions naming nothing at all ("show me stuff") start over
+  private continuesConversation(question: string, context: SemanticContext): boolean {
+    if (this.semanticMapper.isFollowUp(question)) return true;
+    const namesNothing = context.breakdowns.length === 0
+      && this.semanticMapper.findMetrics(question).length === 0
+      && this.semanticMapper.findDimensions(question).length === 0;
+    return namesNothing && (context.ranking !== null || this.buildFilters(question).length > 0);
+  }
+
+  private filterMatches(filter: Filter, word: string): boolean {
+    const model = this.semanticMapper.getSemanticModel();
+    if (filter.field === 'date') {
+      return ['date', 'dates', 'day', 'days', 'week', 'month', 'year', 'period', 'time'].includes(word);
+    }
+    if (filter.field.includes(word.replace(/s$/, ''))) return true;
+
+    // "without women" drops the gender filter, as does "regardless of sex"
+    const named = (name: string, definition: { synonyms: string[] }) => name === word || (definition.synonyms || []).includes(word);
+    return Object.entries(model.segments).some(([name, segment]) => segment.field === filter.field && named(name, segment))
+      || Object.entries(model.dimensions).some(([name, dimension]) => named(name, dimension) && filter.field.includes(name));
+  }
+
+  /**
+   * Joins every table the plan references to the fact table along the shortest path in
+   * the join graph. References to a table with several roles (start and end stations)
+   * are pointed at the alias of the role named in the question (`roles`), or else of
+   * the role the model uses by default.
+   */
+  resolveJoins(plan: QueryPlan, roles: { [table: string]: string } = {}): QueryPlan {
+    const model = this.semanticMapper.getSemanticModel();
+    const graph = this.semanticMapper.getJoinGraph();
+    const factTable = model.fact_table;
+    const references = new Set<string>([
+      ...plan.measures.flatMap(m => [...referencedTables(m.expression), ...(m.filters || []).flatMap(filterTables)]),
+      ...plan.dimensions.flatMap(d => referencedTables(d.expression)),
+      ...plan.filters.flatMap(filterTables)
+    ]);
+
+    // A question about a single lookup table reads it directly, unless it counts trips
+    const countsRows = plan.measures.some(m => m.expression === null);
+    if (references.size === 1 && !references.has(factTable) && !countsRows) {
+      const [alias] = references;
+      return { ...plan, from: { table: graph.resolveAlias(alias).table, alias }, joins: [] };
+    }
+
+    const joins: Join[] = [];
+    const aliases: { [reference: string]: string } = {};
+
+    for (const reference of references) {
+      if (reference === factTable) continue;
+
+      const { table, role } = graph.resolveAlias(reference);
+      const path = graph.findPath(factTable, table, role || roles[table] || model.default_roles[table] || null);
+      if (!path || path.length === 0) continue;
+
+      for (const join of graph.toJoins(path, factTable)) {
+        if (!joins.some(j => j.alias === join.alias)) joins.push(join);
+      }
+
+      const alias = graph.aliasFor(table, path[path.length - 1].role);
+      if (alias !== reference) aliases[reference] = alias;
+    }
+
+    return {
+      ...plan,
+      from: { table: factTable, alias: factTable },
+      measures: plan.measures.map(m => ({
+        ...m,
+        expression: m.expression && renameTables(m.expression, aliases),
+        ...(m.filters ? { filters: m.filters.map(f => renameFilterTables(f, aliases)) } : {})
+      })),
+      dimensions: plan.dimensions.map(d => ({ ...d, expression: renameTables(d.expression, aliases) })),
+      filters: plan.filters.map(f => renameFilterTables(f, aliases)),
+      joins
+    };
+  }
+
+  /**
+   * Plans "June vs May" or "rainy vs dry days average duration" as one query with a
+   * FILTER clause per cohort. Filters found on both sides of the comparison define the
+   * cohorts; the rest of the question's filters apply to both.
+   */
+  private buildComparison(question: string, context: SemanticContext): QueryPlan {
+    const model = this.semanticMapper.getSemanticModel();
+    const sides = this.shareYear(this.semanticMapper.splitComparison(question)!);
+    const sideFilters = sides.map(side => this.buildFilters(side));
+    const fields = sideFilters[0].map(f => f.field).filter(field => sideFilters[1].some(f => f.field === field));
+
+    if (fields.length === 0) {
+      throw new QueryError('UNSUPPORTED_QUESTION', 'Could not tell which two groups to compare');
+    }
+
+    // Aggregate as the question would without the comparison, e.g. "average duration"
+    const aggregation = this.semanticMapper.detectIntent(sides.join(' '));
+    let [measure] = this.buildMeasures(question, { ...context, intent: aggregation, breakdowns: [], ranking: null });
+    if (!measure) {
+      const [metric] = this.semanticMapper.findMetrics(question).map(match => match.name);
+      const name = metric || Object.keys(model.metrics).find(key => model.metrics[key].aggregate === 'count' && !model.metrics[key].expression);
+      if (!name) throw new QueryError('UNSUPPORTED_QUESTION', 'No metric to compare');
+      measure = this.toMeasure(name, model.metrics[name], null, question);
+    }
+    if (measure.aggregate === null) {
+      throw new QueryError('UNSUPPORTED_QUESTION', `${measure.alias} cannot be compared between groups`);
+    }
+
+    const cohortFilters = sideFilters.map(filters => filters.filter(f => fields.includes(f.field)));
+    const measures = cohortFilters.map((filters, index) => ({ ...measure, alias: `${measure.alias}_${index + 1}`, filters }));
+
+    // Shared filters plus a filter keeping only rows in either cohort
+    const filters = this.buildFilters(question).filter(f => !fields.includes(f.field));
+    filters.push({
+      kind: 'any',
+      field: 'cohort',
+      filters: cohortFilters.map(group => group.length === 1 ? group[0] : { kind: 'all' as const, field: 'cohort', filters: group })
+    });
+
+    return {
+      intent: QueryIntent.COMPARE,
+      from: { table: model.fact_table, alias: model.fact_table },
+      measures,
+      dimensions: [],
+      filters,
+      joins: [],
+      orderBy: [],
+      limit: null,
+      comparison: {
+        metric: measure.alias,
+        cohorts: measures.map((m, index) => ({ label: this.describeCohort(sides[index], cohortFilters[index]), alias: m.alias }))
+      }
+    };
+  }
+
+  // "June and July 2025" means June 2025 too
+  private shareYear(sides: [string, string]): [string, string] {
+    const years = sides.map(side => side.match(/\b(?:19|20)\d{2}\b/));
+    if (years[0] && !years[1]) return [sides[0], `${sides[1]} ${years[0][0]}`];
+    if (years[1] && !years[0]) return [`${sides[0]} ${years[1][0]}`, sides[1]];
+    return sides;
+  }
+
+  private describeCohort(text: string, filters: Filter[]): string {
+    const segments = this.semanticMapper.getSemanticModel().segments;
+    const matches = this.semanticMapper.findSegments(text);
+
+    return filters.map(filter => {
+      if (filter.kind === 'any' && filter.field === 'date') {
+        return filter.filters.map(range => range.kind === 'range' ? this.describeRange(range.from, range.to) : range.field).join(', ');
+      }
+      const segment = matches.find(match => segments[match.name].field === filter.field);
+      if (segment) return segment.name;
+      return filter.kind === 'comparison' ? String(filter.value).replace(/%/g, '') : filter.field;
+    }).join(', ');
+  }
+
+  private describeRange(from: string | number, to: string | number): string {
+    const [start, end] = [String(from).slice(0, 10), String(to).slice(0, 10)];
+    return start === end ? start : `${start} to ${end}`;
+  }
+
+  private buildMeasures(question: string, context: SemanticContext): Measure[] {
+    const model = this.semanticMapper.getSemanticModel();
+    const metrics = this.semanticMapper.findMetrics(question).map(match => match.name);
+    const grouped = context.breakdowns.length > 0 || context.ranking !== null;
+    const countMetric = Object.keys(model.metrics).find(key => model.metrics[key].aggregate === 'count' && !model.metrics[key].expression);
+    const countMeasure = countMetric ? [this.toMeasure(countMetric, model.metrics[countMetric], null, question)] : [];
+
+    switch (context.intent) {
+      case QueryIntent.COUNT:
+        // Counting questions count rows whatever metric they mention
+        return countMeasure;
+
+      case QueryIntent.AVERAGE:
+      case QueryIntent.SUM: {
+        const name = metrics.find(key => model.metrics[key].expression !== undefined);
+        if (!name) return [];
+        return [this.toMeasure(name, model.metrics[name], context.intent === QueryIntent.AVERAGE ? 'avg' : 'sum', question)];
+      }
+
+      case QueryIntent.MAX:
+      case QueryIntent.MIN:
+        // "most departures" ranks by the metric named, or by trip count
+        return metrics.length > 0 ? [this.toMeasure(metrics[0], model.metrics[metrics[0]], null, question)] : countMeasure;
+    }
+
+    if (grouped) {
+      return metrics.length > 0 ? [this.toMeasure(metrics[0], model.metrics[metrics[0]], null, question)] : countMeasure;
+    }
+
+    // "trips ending at Zilker Park" asks for the trips it names, which are counted
+    if (context.intent === QueryIntent.FILTER && countMetric && metrics.includes(countMetric)) {
+      return countMeasure;
+    }
+    return [];
+  }
+
+  private toMeasure(name: string, metric: MetricDefinition, aggregate: AggregateFunction | null, question: string): Measure {
+    const measure: Measure = {
+      alias: name,
+      // Pre-aggregated formulas keep their own aggregation
+      aggregate: metric.aggregate === null ? null : aggregate || metric.aggregate,
+      expression: metric.expression ? toExpression(metric.expression) : null,
+      ...(metric.precision !== undefined ? { precision: metric.precision } : {}),
+      ...(metric.unit ? { unit: metric.unit } : {})
+    };
+
+    // "How many miles" converts a metric in km, and the column is named for its unit:
+    // distance_km becomes distance_miles
+    const target = metric.unit ? requestedUnit(question, metric.unit) : null;
+    if (!target) return measure;
+    const base = name.endsWith(`_${metric.unit}`) ? name.slice(0, -metric.unit!.length - 1) : name;
+    return {
+      ...measure,
+      alias: `${base}_${target.name}`,
+      metric: name,
+      unit: target.name,
+      scale: conversionFactor(findUnit(metric.unit!)!, target),
+      precision: target.precision
+    };
+  }
+
+  private buildDimensions(question: string, context: SemanticContext, mappings: ColumnMapping[]): Dimension[] {
+    const model = this.semanticMapper.getSemanticModel();
+    const toDimension = (name: string): Dimension[] => this.toDimensions(name);
+
+    if (context.breakdowns.length > 0) {
+      return context.breakdowns.flatMap(toDimension);
+    }
+
+    // Rankings ("most departures", "top 5 stations") group by the dimension they name
+    const ranks = context.intent === QueryIntent.MAX || context.intent === QueryIntent.MIN || context.ranking !== null;
+    if (ranks) {
+      const dimensions = this.semanticMapper.findDimensions(question);
+      if (dimensions.length > 0) {
+        return toDimension(dimensions[0].name);
+      }
+    }
+
+    if (context.intent !== QueryIntent.MAX && context.intent !== QueryIntent.LIST) {
+      return [];
+    }
+
+    const match = this.findColumn(mappings, ['station', 'point', 'dock', 'name', 'avenue']);
+    if (!match) return [];
+
+    // Station rankings report the station name rather than its id
+    if (context.intent === QueryIntent.MAX && (match.column.includes('station') || match.column.includes('id')) && model.dimensions.station) {
+      return toDimension('station');
+    }
+
+    return [{ alias: match.column, expression: column(match.table, match.column) }];
+  }
+
+  /**
+   * A dimension with roles groups once per role, e.g. a route by its start and its end
+   * station, each under the alias of the role's join.
+   */
+  private toDimensions(name: string): Dimension[] {
+    const definition = this.semanticMapper.getSemanticModel().dimensions[name];
+    const expression = toExpression(definition.expression);
+    if (!definition.roles) {
+      return [{ alias: name, expression }];
+    }
+
+    const graph = this.semanticMapper.getJoinGraph();
+    return definition.roles.map(role => {
+      const aliases = Object.fromEntries(referencedTables(expression).map(table => [table, graph.aliasFor(table, role)]));
+      // "start_station" rather than "start_route"
+      const base = expression.kind === 'column' ? this.fieldName(expression.table, expression.column) : name;
+      return { alias: `${role}_${base}`, expression: renameTables(expression, aliases) };
+    });
+  }
+
+  private buildFilters(question: string): Filter[] {
+    const filters: Filter[] = [];
+
+    // Dates filter on the model's time column, regardless of mappings
+    const dateRanges = this.dateParser.parse(question);
+    if (dateRanges) {
+      const timeColumn = toExpression(this.semanticMapper.getSemanticModel().time_column);
+      filters.push({
+        kind: 'any',
+        field: 'date',
+        filters: dateRanges.map(range => ({
+          kind: 'range' as const,
+          field: 'date',
+          expression: timeColumn,
+          from: toSqlTimestamp(range.start),
+          to: toSqlTimestamp(range.end),
+          cast: 'timestamp' as const
+        }))
+      });
+    }
+
+    // Named segments from the semantic model, one per field
+    const segments = this.semanticMapper.getSemanticModel().segments;
+    for (const match of this.semanticMapper.findSegments(question)) {
+      const segment = segments[match.name];
+      if (filters.some(f => f.field === segment.field)) continue;
+      filters.push({ kind: 'comparison', field: segment.field, expression: toExpression(segment.expression), operator: segment.operator, value: segment.value });
+    }
+
+    // Values named in the question ("rides from Lamar Blvd"), on the column of the role the words around them give
+    const model = this.semanticMapper.getSemanticModel();
+    const graph = this.semanticMapper.getJoinGraph();
+    const roles = this.semanticMapper.findRoles(question);
+    for (const match of this.semanticMapper.findValues(question)) {
+      const filtered = filters.some(f => f.kind === 'comparison' && f.expression.kind === 'column'
+        && f.expression.table === match.table && f.expression.column === match.column);
+      if (filtered) continue;
+
+      const role = graph.rolesOf(match.table).length > 0 ? match.role || roles[match.table] || model.default_roles[match.table] || null : null;
+      const name = this.fieldName(match.table, match.column);
+      filters.push({
+        kind: 'comparison',
+        field: role ? `${role}_${name}` : name,
+        expression: column(graph.aliasFor(match.table, role), match.column),
+        operator: '=',
+        value: match.value
+      });
+    }
+
+    return filters;
+  }
+
+  // The dimension reading a column names its filters, e.g. "station" for stations.station_name
+  private fieldName(table: string, columnName: string): string {
+    const dimensions = this.semanticMapper.getSemanticModel().dimensions;
+    const name = Object.keys(dimensions).find(key => {
+      if (dimensions[key].roles) return false;
+      const expression = toExpression(dimensions[key].expression);
+      return expression.kind === 'column' && expression.table === table && expression.column === columnName;
+    });
+    return name || columnName;
+  }
+
+  private buildOrdering(context: SemanticContext, measures: Measure[], dimensions: Dimension[]): { orderBy: OrderBy[]; limit: number | null } {
+    if (measures.length === 0 || dimensions.length === 0) {
+      return { orderBy: [], limit: null };
+    }
+
+    const measure = measures[0].alias;
+
+    if (context.ranking) {
+      return { orderBy: [{ alias: measure, direction: context.ranking.direction }], limit: context.ranking.limit };
+    }
+    if (context.intent === QueryIntent.MAX || context.intent === QueryIntent.MIN) {
+      return { orderBy: [{ alias: measure, direction: context.intent === QueryIntent.MAX ? 'DESC' : 'ASC' }], limit: 1 };
+    }
+
+    // Time breakdowns read chronologically, categorical ones largest first
+    const temporal = dimensions[0].expression.kind === 'date' || dimensions[0].expression.kind === 'date_part';
+    if (temporal) {
+      return { orderBy: dimensions.map(d => ({ alias: d.alias, direction: 'ASC' as const })), limit: null };
+    }
+    return { orderBy: [{ alias: measure, direction: 'DESC' }], limit: null };
+  }
+
+  private findColumn(mappings: ColumnMapping[], keywords: string[]): ColumnMapping | null {
+    // First, try to find exact matches for timestamp columns when looking for date/time
+    if (keywords.some(k => ['start', 'created', 'date', 'time'].includes(k))) {
+      const timestampColumn = mappings.find(m =>
+        m.type.includes('timestamp') || m.type.includes('date') || m.type.includes('time')
+      );
+      if (timestampColumn) return timestampColumn;
+    }
+
+    // Then try to find columns by keywords
+    for (const keyword of keywords) {
+      const match = mappings.find(m =>
+        m.column.toLowerCase().includes(keyword) ||
+        m.table.toLowerCase().includes(keyword)
+      );
+      if (match) return match;
+    }
+
+    return mappings.length > 0 ? mappings[0] : null;
+  }
+}
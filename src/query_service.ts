@@ -1,117 +1,647 @@
-import { DatabaseService } from './database_service';
-import { SemanticMapper } from './semantic_mapper';
+import { DataSource, DatabaseService, ExecutionLimits, TableInfo } from './database_service';
+import { SemanticMapper, ColumnMapping, QueryIntent } from './semantic_mapper';
 import { SQLGenerator } from './sql_generator';
+import { DateParser } from './date_parser';
+import { Expression, Filter, Join, Measure, QueryPlan, RangeFilter } from './query_plan';
+import { loadSemanticModel } from './semantic_model';
+import { ConversationStore } from './conversation_store';
+import { Clarifier, Clarification } from './clarifier';
+import { ValueIndex } from './value_index';
+import { SQLValidator } from './sql_validator';
+import { QueryError, QueryErrorCode } from './query_error';
+import { SqlGenerationStrategy, SqlCandidate, RuleBasedStrategy, FallbackStrategy, EnsembleStrategy } from './sql_generation_strategy';
+import { LLMStrategy } from './llm_strategy';
+import { ResultCache, MemoryCacheBackend, RedisCacheBackend, CacheMetadata, cacheMetadata } from './result_cache';
+import { RedisClient } from './redis_client';
+import { SchemaDiff, diffSchemas, describeDiff, schemaVersion } from './schema_diff';
+import { PageInfo, paginate, queryKey } from './pagination';
+import { ResultStore, StoredQuery } from './result_store';
+import { Visualization, recommendVisualization } from './visualization';
+import { AnswerGenerator } from './answer_generator';
+import { Ingester, IngestReport, IngestSource } from './ingestion';
+
+export type ColumnType = 'number' | 'string' | 'date' | 'timestamp' | 'boolean';
+
+export interface ColumnMetadata {
+  name: string;
+  role: 'dimension' | 'measure';
+  type: ColumnType;
+  // For measures of metrics with a unit, e.g. "km", after any conversion the question asked for
+  unit?: string;
+  // Decimals the values are rounded to
+  precision?: number;
+}
+
+export interface CohortValue {
+  label: string;
+  value: number | null;
+}
+
+export interface ComparisonResult {
+  metric: string;
+  cohorts: CohortValue[];
+  // First cohort minus the second
+  difference: number | null;
+  // Difference relative to the second cohort
+  percentDifference: number | null;
+}
 
 export interface QueryResponse {
   sql: string;
   result: any[] | number | string | null;
+  // The result in a sentence, e.g. "Average ride time in June 2025 was 25 minutes."
+  answer?: string;
+  // Unit and precision of a single-value result, as in its column
+  unit?: string;
+  precision?: number;
   error: string | null;
+  // Set for errors a client can act on, such as SQL rejected by the validator or a timeout
+  errorCode?: QueryErrorCode;
+  plan?: QueryPlan;
+  // Which SQL generation strategy answered: rules or llm
+  strategy?: string;
+  columns?: ColumnMetadata[];
+  // Suggested chart for the rows in `result`, absent when they read better as a table
+  visualization?: Visualization;
+  comparison?: ComparisonResult;
+  // Pass back on the next question to ask follow-ups
+  sessionId?: string;
+  // Set when the question was ambiguous; the query only runs when confidence is high enough
+  clarification?: Clarification;
+  // More rows matched than MAX_RESULT_ROWS; only the first ones can be paged through
+  truncated?: boolean;
+  // Rows the query matched, for tabular results
+  totalCount?: number;
+  page?: PageInfo;
+  // Whether the result came from the result cache, absent when caching is off
+  cache?: CacheMetadata;
+  // Identifies the answer for GET /query/:id/export
+  queryId?: string;
+}
+
+export interface QueryOptions {
+  // Skip the result cache and run the query, refreshing the cached result
+  fresh?: boolean;
+  // Rows per page of a tabular result, QUERY_PAGE_SIZE by default
+  limit?: number;
+  // nextCursor of the previous page
+  cursor?: string;
+}
+
+export interface SchemaStatus {
+  // Hash of tables, columns and keys; null until the schema is loaded
+  version: string | null;
+  loadedAt: string | null;
+  tables: number;
 }
 
+export interface SchemaReload {
+  version: string;
+  previousVersion: string | null;
+  changed: boolean;
+  diff: SchemaDiff;
+}
+
+// What was read from a question, for POST /query/explain
+export interface Interpretation {
+  intent: QueryIntent;
+  // Words of the question left after stop words, matched against column names
+  userWords: string[];
+  // Best matches first, with a similarity from 0 to 1 (plus 0.1 when the table name matches)
+  columnMappings: ColumnMapping[];
+  filters: Filter[];
+  // Inclusive ranges of the date filter
+  dateRanges: { from: string; to: string }[];
+  joins: Join[];
+}
+
+export interface Explanation extends QueryResponse {
+  interpretation: Interpretation;
+  // The database's EXPLAIN output, one line per row; absent when there is no SQL or it failed
+  queryPlan?: string[];
+}
+
+interface ExecutionResult {
+  rows: any[];
+  truncated: boolean;
+  totalCount: number;
+  cache?: CacheMetadata;
+}
+
+// Rows fetched from the cursor per round trip when streaming
+const STREAM_BATCH_SIZE = 500;
+
+const EXPLAINED_MAPPINGS = 10;
+
 export class QueryService {
-  private dbService: DatabaseService;
+  private dataSource: DataSource;
   private semanticMapper: SemanticMapper;
   private sqlGenerator: SQLGenerator;
+  private conversations: ConversationStore;
+  private results: ResultStore;
+  private clarifier: Clarifier;
+  private answers: AnswerGenerator;
+  private validator: SQLValidator;
+  private limits: ExecutionLimits;
+  private pageSize: number;
+  private strategy: SqlGenerationStrategy;
+  private cache: ResultCache | null;
   private isInitialized: boolean = false;
+  private schemaStatus: SchemaStatus = { version: null, loadedAt: null, tables: 0 };
+  private reloading: Promise<SchemaReload> | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  // Postgres configured from the environment unless another data source is given
+  constructor(dataSource: DataSource = new DatabaseService()) {
+    this.dataSource = dataSource;
+    this.conversations = new ConversationStore();
+    this.results = new ResultStore();
+    this.semanticMapper = new SemanticMapper(loadSemanticModel(process.env.SEMANTIC_MODEL_PATH));
+    const referenceDate = this.parseReferenceDate(process.env.REFERENCE_DATE);
+    this.sqlGenerator = new SQLGenerator(this.semanticMapper, new DateParser({ referenceDate }), dataSource.dialect);
+    this.clarifier = new Clarifier(this.semanticMapper);
+    this.answers = new AnswerGenerator(this.semanticMapper);
+    this.validator = new SQLValidator([], { functions: dataSource.dialect.functions });
+    this.limits = {
+      statementTimeoutMs: this.parsePositiveInt(process.env.QUERY_TIMEOUT_MS, 10000),
+      maxRows: this.parsePositiveInt(process.env.MAX_RESULT_ROWS, 10000)
+    };
+    this.pageSize = Math.min(this.parsePositiveInt(process.env.QUERY_PAGE_SIZE, 1000), this.limits.maxRows);
+    this.strategy = this.createStrategy(process.env.SQL_STRATEGY, referenceDate);
+    this.cache = this.createCache();
+  }
+
+  // CACHE_TTL_MS=0 turns caching off; with REDIS_URL the cache is shared between instances
+  private createCache(): ResultCache | null {
+    if (process.env.CACHE_TTL_MS === '0') return null;
+
+    const backend = process.env.REDIS_URL
+      ? new RedisCacheBackend(new RedisClient(process.env.REDIS_URL))
+      : new MemoryCacheBackend({ maxEntries: this.parsePositiveInt(process.env.CACHE_MAX_ENTRIES, 500) });
+    return new ResultCache(backend, { ttlMs: this.parsePositiveInt(process.env.CACHE_TTL_MS, 5 * 60 * 1000) });
+  }
+
+  // rules (default), llm, fallback (rules, then the model) or ensemble (both, the more confident wins)
+  private createStrategy(mode: string | undefined, referenceDate: Date | undefined): SqlGenerationStrategy {
+    const rules = new RuleBasedStrategy(this.sqlGenerator, this.clarifier);
+    if (!mode || mode === 'rules') return rules;
+
+    const baseUrl = process.env.LLM_BASE_URL;
+    const model = process.env.LLM_MODEL;
+    if (!baseUrl || !model) {
+      console.warn(`SQL_STRATEGY=${mode} needs LLM_BASE_URL and LLM_MODEL, using rules`);
+      return rules;
+    }
+
+    const llm = new LLMStrategy(this.semanticMapper, this.validator, {
+      baseUrl,
+      model,
+      apiKey: process.env.LLM_API_KEY,
+      timeoutMs: this.parsePositiveInt(process.env.LLM_TIMEOUT_MS, 15000),
+      referenceDate,
+      dialect: this.dataSource.dialect
+    });
+
+    switch (mode) {
+      case 'llm':
+        return llm;
+      case 'fallback':
+        return new FallbackStrategy([rules, llm], this.validator);
+      case 'ensemble':
+        return new EnsembleStrategy([rules, llm], this.validator);
+      default:
+        console.warn(`Unknown SQL_STRATEGY ${mode}, using rules`);
+        return rules;
+    }
+  }
 
-  constructor() {
-    this.dbService = new DatabaseService();
-    this.semanticMapper = new SemanticMapper();
-    this.sqlGenerator = new SQLGenerator(this.semanticMapper);
+  private parsePositiveInt(value: string | undefined, fallback: number): number {
+    const parsed = parseInt(value || '', 10);
+    return parsed > 0 ? parsed : fallback;
+  }
+
+  private parseReferenceDate(value: string | undefined): Date | undefined {
+    // Relative phrases ("last month", "June") are anchored here instead of today when set
+    if (!value) return undefined;
+    // A date alone is a local date, as DateParser reads it; new Date() would take UTC midnight
+    const day = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    const date = day ? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3])) : new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
   }
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
     try {
-      const schema = await this.dbService.getSchema();
-      this.semanticMapper.setSchema(schema);
-      this.isInitialized = true;
-      console.log(`Initialized with ${schema.length} tables`);
+      await this.reloadSchema();
+      console.log(`Initialized with ${this.schemaStatus.tables} tables and ${this.semanticMapper.getValueIndex().size()} indexed values`);
     } catch (error) {
       console.error('Failed to initialize QueryService:', error);
       throw error;
     }
   }
 
-  async processQuery(question: string): Promise<QueryResponse> {
+  /**
+   * Re-introspects the database and, when tables, columns or keys changed, swaps in the new
+   * schema and drops cached results. Concurrent calls share one reload. `force` does so for
+   * an unchanged schema too, to index new values after data was loaded.
+   */
+  async reloadSchema(force: boolean = false): Promise<SchemaReload> {
+    if (this.reloading && force) {
+      await this.reloading.catch(() => undefined);
+    }
+    if (!this.reloading) {
+      this.reloading = this.loadSchema(force).finally(() => {
+        this.reloading = null;
+      });
+    }
+    return this.reloading;
+  }
+
+  private async loadSchema(force: boolean): Promise<SchemaReload> {
+    const schema = await this.dataSource.getSchema();
+    const version = schemaVersion(schema);
+    const previousVersion = this.schemaStatus.version;
+    const diff = diffSchemas(this.semanticMapper.getSchema(), schema);
+
+    if (this.isInitialized && version === previousVersion && !force) {
+      return { version, previousVersion, changed: false, diff };
+    }
+
+    if (this.isInitialized) {
+      describeDiff(diff).forEach(change => console.log(`Schema ${previousVersion} -> ${version}: ${change}`));
+    }
+    await this.applySchema(schema, version);
+    if (this.isInitialized && this.cache) {
+      // Results computed against the previous schema or data may no longer hold
+      await this.cache.clear();
+    }
+    this.isInitialized = true;
+
+    return { version, previousVersion, changed: version !== previousVersion, diff };
+  }
+
+  private async applySchema(schema: TableInfo[], version: string): Promise<void> {
+    const valueIndex = await this.buildValueIndex(schema);
+
+    // Swapped in one synchronous step, so no query plans against a mix of old and new
+    this.semanticMapper.setSchema(schema);
+    this.semanticMapper.setValueIndex(valueIndex);
+    this.validator.setSchema(schema);
+    this.schemaStatus = { version, loadedAt: new Date().toISOString(), tables: schema.length };
+  }
+
+  /**
+   * Loads trip, station and weather files into the database (see Ingester), then reloads
+   * the schema so new tables, stations and values can be asked about.
+   */
+  async ingest(sources: IngestSource[]): Promise<IngestReport & { schema: SchemaReload }> {
+    const report = await new Ingester(this.dataSource).ingest(sources);
+    return { ...report, schema: await this.reloadSchema(true) };
+  }
+
+  getSchemaStatus(): SchemaStatus {
+    return this.schemaStatus;
+  }
+
+  // Reloads the schema every `intervalMs` until close()
+  startSchemaRefresh(intervalMs: number): void {
+    this.stopSchemaRefresh();
+    this.refreshTimer = setInterval(() => {
+      this.reloadSchema().catch(error => console.error('Scheduled schema reload failed:', error));
+    }, intervalMs);
+    this.refreshTimer.unref();
+  }
+
+  stopSchemaRefresh(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private async buildValueIndex(schema: TableInfo[]): Promise<ValueIndex> {
     try {
-      if (!this.isInitialized) {
-        await this.initialize();
+      return await ValueIndex.build(schema, (table, column, limit) => this.dataSource.getDistinctValues(table, column, limit));
+    } catch (error) {
+      // Questions still work without value filters
+      console.error('Failed to build value index:', error);
+      return new ValueIndex();
+    }
+  }
+
+  async processQuery(question: string, sessionId?: string, options: QueryOptions = {}): Promise<QueryResponse> {
+    sessionId = sessionId || this.conversations.create();
+
+    try {
+      const prepared = await this.prepare(question, sessionId);
+      if ('response' in prepared) {
+        return prepared.response;
       }
 
-      if (!question || question.trim().length === 0) {
-        return {
-          sql: '',
-          result: null,
-          error: 'Question cannot be empty'
-        };
+      const { sql, params, plan, clarification, strategy } = prepared.candidate;
+      const { rows: result, truncated, totalCount, cache } = await this.execute(sql, params, options.fresh === true);
+      // Later pages repeat the question and are not new turns
+      if (plan && !options.cursor) {
+        this.conversations.append(sessionId, question, plan);
       }
 
-      // Generate SQL from natural language
-      const { sql, params } = this.sqlGenerator.generateSQL(question);
-      
-      if (!sql || sql.trim().length === 0) {
+      if (plan && plan.comparison) {
+        const comparison = this.compareCohorts(result[0] || {}, plan);
+        const columns = this.comparisonColumns(comparison, plan);
+        const cohorts = this.cohortRows(comparison);
+        const visualization = recommendVisualization(columns, cohorts.length, plan);
+        const answer = this.answers.answer(plan, result, totalCount, comparison);
         return {
-          sql: '',
-          result: null,
-          error: 'Unable to generate SQL query from the question'
+          sql,
+          result: cohorts,
+          ...(answer ? { answer } : {}),
+          error: null,
+          plan,
+          strategy,
+          columns,
+          ...(visualization ? { visualization } : {}),
+          comparison,
+          sessionId,
+          ...(clarification ? { clarification } : {}),
+          ...(cache ? { cache } : {}),
+          queryId: this.results.add({ question, sql, params, plan, columns })
         };
       }
-
-      // Execute the query
-      const result = await this.dbService.executeQuery(sql, params);
       
       // Format the result based on query type
-      const formattedResult = this.formatResult(result, question);
+      const columns = plan ? this.describeColumns(plan) : this.inferColumns(result);
+      const formattedResult = this.formatResult(result, columns, plan);
+      const paged = Array.isArray(formattedResult) ? this.paginate(formattedResult, sql, params, options) : null;
+      const valueColumn = paged ? null : columns.find(c => c.role === 'measure');
+      const visualization = paged ? recommendVisualization(columns, paged.rows.length, plan) : null;
+      const answer = this.answers.answer(plan, result, totalCount);
 
       return {
         sql,
-        result: formattedResult,
-        error: null
+        result: paged ? paged.rows : formattedResult,
+        ...(answer ? { answer } : {}),
+        ...(valueColumn?.unit ? { unit: valueColumn.unit } : {}),
+        ...(valueColumn?.precision !== undefined ? { precision: valueColumn.precision } : {}),
+        error: null,
+        plan,
+        strategy,
+        columns,
+        ...(visualization ? { visualization } : {}),
+        sessionId,
+        ...(clarification ? { clarification } : {}),
+        ...(paged ? { totalCount, page: paged.page } : {}),
+        ...(truncated ? { truncated } : {}),
+        ...(cache ? { cache } : {}),
+        // Without a plan or rows the columns are unknown until the export runs
+        queryId: this.results.add({ question, sql, params, plan, columns: columns.length > 0 ? columns : undefined })
       };
 
     } catch (error) {
-      console.error('Query processing error:', error);
-      
-      let errorMessage = 'An error occurred while processing the query';
-      if (error instanceof Error) {
-        errorMessage = error.message;
+      return this.errorResponse(error, sessionId);
+    }
+  }
+
+  /**
+   * Runs the question and hands its rows to `onRows` in batches straight from a server-side
+   * cursor, without the row cap or the cache. The response carries everything but the rows;
+   * when nothing ran it has the error or clarification instead.
+   */
+  async streamQuery(question: string, sessionId: string | undefined, onRows: (rows: any[]) => Promise<void>): Promise<QueryResponse> {
+    sessionId = sessionId || this.conversations.create();
+
+    try {
+      const prepared = await this.prepare(question, sessionId);
+      if ('response' in prepared) {
+        return prepared.response;
+      }
+
+      const { sql, params, plan, strategy } = prepared.candidate;
+      const totalCount = await this.dataSource.streamReadOnly(sql, params, this.limits, STREAM_BATCH_SIZE, onRows);
+      if (plan) {
+        this.conversations.append(sessionId, question, plan);
       }
 
       return {
-        sql: '',
+        sql,
         result: null,
-        error: errorMessage
+        error: null,
+        plan,
+        strategy,
+        ...(plan ? { columns: this.describeColumns(plan) } : {}),
+        totalCount,
+        sessionId
+      };
+    } catch (error) {
+      return this.errorResponse(error, sessionId);
+    }
+  }
+
+  // An answered query by the queryId of its response; null once evicted or expired
+  getQuery(queryId: string): StoredQuery | null {
+    return this.results.get(queryId);
+  }
+
+  /**
+   * Runs an answered query again for export, handing its rows and columns to `onRows` in
+   * batches straight from a server-side cursor, without the row cap. Comparisons export
+   * their cohorts, as answered. The response carries the error, if any, but no rows.
+   */
+  async exportQuery(query: StoredQuery, onRows: (rows: any[], columns: ColumnMetadata[]) => Promise<void>): Promise<QueryResponse> {
+    const { sql, params, plan } = query;
+
+    try {
+      let totalCount: number;
+      if (plan && plan.comparison) {
+        const { rows } = await this.execute(sql, params, false);
+        const comparison = this.compareCohorts(rows[0] || {}, plan);
+        const cohorts = this.cohortRows(comparison);
+        await onRows(cohorts, this.comparisonColumns(comparison, plan));
+        totalCount = cohorts.length;
+      } else {
+        totalCount = await this.dataSource.streamReadOnly(sql, params, this.limits, STREAM_BATCH_SIZE,
+          rows => onRows(rows, query.columns || this.inferColumns(rows)));
+      }
+
+      return { sql, result: null, error: null, plan, columns: query.columns, totalCount };
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * How a question would be answered, without running it: what was read from it, the SQL,
+   * and the plan the database would run the SQL with. Follow-ups resolve against the session
+   * as in processQuery, but no turn is added.
+   */
+  async explainQuery(question: string, sessionId?: string): Promise<Explanation> {
+    sessionId = sessionId || this.conversations.create();
+
+    try {
+      const prepared = await this.prepare(question, sessionId);
+      if ('response' in prepared) {
+        return { ...prepared.response, interpretation: this.interpret(question, prepared.response.plan) };
+      }
+
+      const { sql, params, plan, strategy, clarification } = prepared.candidate;
+      return this.explain(question, sql, params, plan, { strategy, sessionId, ...(clarification ? { clarification } : {}) });
+    } catch (error) {
+      return { ...this.errorResponse(error, sessionId), interpretation: this.interpret(question) };
+    }
+  }
+
+  // Explains an answered query as it ran, by the queryId of its response
+  async explainAnswer(query: StoredQuery): Promise<Explanation> {
+    return this.explain(query.question, query.sql, query.params, query.plan, {});
+  }
+
+  private async explain(question: string, sql: string, params: any[], plan: QueryPlan | undefined, response: Partial<QueryResponse>): Promise<Explanation> {
+    const interpretation = this.interpret(question, plan);
+
+    try {
+      const queryPlan = await this.dataSource.explain(sql, params, this.limits);
+      return { ...response, sql, result: null, error: null, plan, interpretation, queryPlan };
+    } catch (error) {
+      return { ...response, ...this.errorResponse(error, response.sessionId), sql, plan, interpretation };
+    }
+  }
+
+  private interpret(question: string, plan?: QueryPlan): Interpretation {
+    const userWords = this.semanticMapper.extractUserWords(question);
+    const dates = plan?.filters.find(f => f.field === 'date');
+    const ranges = !dates ? [] : dates.kind === 'any' ? dates.filters : [dates];
+
+    return {
+      intent: plan ? plan.intent : this.semanticMapper.detectIntent(question),
+      userWords,
+      columnMappings: this.semanticMapper.findBestColumnMatches(userWords).slice(0, EXPLAINED_MAPPINGS),
+      filters: plan ? plan.filters : [],
+      dateRanges: ranges
+        .filter((range): range is RangeFilter => range.kind === 'range')
+        .map(range => ({ from: String(range.from), to: String(range.to) })),
+      joins: plan ? plan.joins : []
+    };
+  }
+
+  /**
+   * Generates and validates the SQL for a question, resolving follow-ups against the
+   * conversation. Returns the response to send instead when there is nothing to run.
+   */
+  private async prepare(question: string, sessionId: string): Promise<{ candidate: SqlCandidate } | { response: QueryResponse }> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    if (!question || question.trim().length === 0) {
+      return {
+        response: {
+          sql: '',
+          result: null,
+          error: 'Question cannot be empty',
+          sessionId
+        }
+      };
+    }
+
+    const previous = this.conversations.lastPlan(sessionId);
+    const candidate = await this.strategy.generate(question, previous);
+    const { sql, plan, clarification, strategy } = candidate;
+
+    // Questions too vague to answer come back with a clarification instead of SQL
+    if (!sql && clarification) {
+      return {
+        response: {
+          sql: '',
+          result: null,
+          error: null,
+          plan,
+          strategy,
+          clarification,
+          sessionId
+        }
+      };
+    }
+
+    if (!sql || sql.trim().length === 0) {
+      return {
+        response: {
+          sql: '',
+          result: null,
+          error: 'Unable to generate SQL query from the question',
+          sessionId
+        }
       };
     }
+
+    // Only a single SELECT over known tables and columns reaches the database
+    this.validator.validate(sql);
+    return { candidate };
+  }
+
+  private paginate(rows: any[], sql: string, params: any[], options: QueryOptions) {
+    const limit = Math.min(options.limit ?? this.pageSize, this.limits.maxRows);
+    return paginate(rows, queryKey(this.validator.normalize(sql), params), limit, options.cursor);
+  }
+
+  private errorResponse(error: unknown, sessionId?: string): QueryResponse {
+    console.error('Query processing error:', error);
+
+    let errorMessage = 'An error occurred while processing the query';
+    if (error instanceof Error) {
+      errorMessage = error.message;
+    }
+
+    return {
+      sql: '',
+      result: null,
+      error: errorMessage,
+      ...(error instanceof QueryError ? { errorCode: error.code } : {}),
+      ...(sessionId ? { sessionId } : {})
+    };
+  }
+  // Cached by normalized SQL and parameters; a fresh run replaces the cached result
+  private async execute(sql: string, params: any[], fresh: boolean): Promise<ExecutionResult> {
+    if (!this.cache) {
+      return this.dataSource.executeReadOnly(sql, params, this.limits);
+    }
+
+    const normalized = this.validator.normalize(sql);
+    if (!fresh) {
+      const cached = await this.cache.get(normalized, params);
+      if (cached) {
+        return { rows: cached.rows, truncated: cached.truncated, totalCount: cached.totalCount, cache: cacheMetadata('hit', cached) };
+      }
+    }
+
+    const result = await this.dataSource.executeReadOnly(sql, params, this.limits);
+    const stored = await this.cache.set(normalized, params, result);
+    return { ...result, cache: cacheMetadata(fresh ? 'bypass' : 'miss', stored) };
   }
 
-  private formatResult(rows: any[], question: string): any[] | number | string | null {
+  // Single values come back bare, typed from their column; everything else as rows
+  private formatResult(rows: any[], columns: ColumnMetadata[], plan?: QueryPlan): any[] | number | string | null {
     if (!rows || rows.length === 0) {
       return null;
     }
 
-    const lowerQuestion = question.toLowerCase();
+    // Breakdowns and top-N rankings are tabular, even when only one row comes back
+    if (plan && plan.measures.length > 0 && plan.dimensions.length > 0 && plan.limit !== 1) {
+      return rows;
+    }
 
-    // Handle single value results (COUNT, AVG, SUM)
+    // Handle single value results (COUNT, AVG, SUM); rounding to the metric's precision happens in SQL
     if (rows.length === 1 && Object.keys(rows[0]).length === 1) {
       const value = Object.values(rows[0])[0];
-      
-      // Format specific result types
-      if (lowerQuestion.includes('average') && typeof value === 'number') {
-        return Math.round(value); // Round to nearest integer for minutes
-      }
-      
-      if (lowerQuestion.includes('kilometres') || lowerQuestion.includes('km')) {
-        return parseFloat(Number(value).toFixed(1)); // Format to 1 decimal place for km
+      // pg returns COUNT and NUMERIC as strings
+      if (columns[0]?.type === 'number' && typeof value === 'string') {
+        return Number(value);
       }
-      
       return value as string | number | any[] | null;
     }
 
-    // Handle single row with single string value (like station name)
-    if (rows.length === 1 && typeof Object.values(rows[0])[0] === 'string') {
+    // A single group named by one string, like the busiest station; a route names two, so
+    // its row is returned whole
+    if (rows.length === 1 && plan && plan.dimensions.length === 1 && typeof Object.values(rows[0])[0] === 'string') {
       return Object.values(rows[0])[0] as string | number | any[] | null;
     }
 
@@ -119,7 +649,102 @@ export class QueryService {
     return rows;
   }
 
+  private compareCohorts(row: any, plan: QueryPlan): ComparisonResult {
+    const { metric, cohorts } = plan.comparison!;
+    const precision = plan.measures[0]?.precision;
+    const round = (value: number, digits: number) => parseFloat(value.toFixed(digits));
+
+    // pg returns COUNT and NUMERIC as strings
+    const values = cohorts.map(cohort => {
+      const value = row[cohort.alias];
+      return value === null || value === undefined ? null : Number(value);
+    });
+
+    const [first, second] = values;
+    const difference = first !== null && second !== null ? first - second : null;
+
+    return {
+      metric,
+      cohorts: cohorts.map((cohort, index) => ({ label: cohort.label, value: values[index] })),
+      difference: difference !== null && precision !== undefined ? round(difference, precision) : difference,
+      percentDifference: difference !== null && second ? round(difference / Math.abs(second) * 100, 1) : null
+    };
+  }
+
+  private cohortRows(comparison: ComparisonResult): any[] {
+    return comparison.cohorts.map(cohort => ({ cohort: cohort.label, [comparison.metric]: cohort.value }));
+  }
+
+  private comparisonColumns(comparison: ComparisonResult, plan: QueryPlan): ColumnMetadata[] {
+    return [
+      { name: 'cohort', role: 'dimension', type: 'string' },
+      { ...this.describeMeasure(plan.measures[0]), name: comparison.metric }
+    ];
+  }
+
+  private describeColumns(plan: QueryPlan): ColumnMetadata[] {
+    return [
+      ...plan.dimensions.map(d => ({ name: d.alias, role: 'dimension' as const, type: this.expressionType(d.expression) })),
+      ...plan.measures.map(m => this.describeMeasure(m))
+    ];
+  }
+
+  private describeMeasure(measure: Measure): ColumnMetadata {
+    return {
+      name: measure.alias,
+      role: 'measure',
+      type: 'number',
+      ...(measure.unit ? { unit: measure.unit } : {}),
+      ...(measure.precision !== undefined ? { precision: measure.precision } : {})
+    };
+  }
+
+  // SQL from a model has no plan, so columns are described from the values returned
+  private inferColumns(rows: any[]): ColumnMetadata[] {
+    if (rows.length === 0) return [];
+
+    return Object.entries(rows[0]).map(([name, value]) => {
+      const type: ColumnType = typeof value === 'number' ? 'number'
+        : typeof value === 'boolean' ? 'boolean'
+        : value instanceof Date ? 'timestamp'
+        : 'string';
+      return { name, role: type === 'number' ? 'measure' as const : 'dimension' as const, type };
+    });
+  }
+
+  private expressionType(expression: Expression): ColumnType {
+    switch (expression.kind) {
+      case 'date':
+        return 'date';
+      case 'date_part':
+      case 'duration_minutes':
+        return 'number';
+      case 'raw':
+        return 'string';
+      case 'column': {
+        const { table } = this.semanticMapper.getJoinGraph().resolveAlias(expression.table);
+        const info = this.semanticMapper.getSchema()
+          .find(t => t.table_name === table)?.columns
+          .find(c => c.column_name === expression.column);
+        return info ? this.columnType(info.data_type) : 'string';
+      }
+    }
+  }
+
+  private columnType(dataType: string): ColumnType {
+    const type = dataType.toLowerCase();
+    if (type === 'int' || ['integer', 'bigint', 'smallint', 'tinyint', 'hugeint', 'numeric', 'decimal', 'real', 'double', 'float'].some(t => type.includes(t))) return 'number';
+    if (type.includes('timestamp') || type === 'datetime') return 'timestamp';
+    if (type === 'date') return 'date';
+    if (type === 'boolean') return 'boolean';
+    return 'string';
+  }
+
   async close(): Promise<void> {
-    await this.dbService.close();
+    this.stopSchemaRefresh();
+    if (this.cache) {
+      await this.cache.close();
+    }
+    await this.dataSource.close();
   }
 }
\ No newline at end of file
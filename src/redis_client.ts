@@ -0,0 +1,182 @@
+import { connect as connectTcp, Socket } from 'net';
+import { connect as connectTls } from 'tls';
+import { RedisCommands } from './result_cache';
+
+type Reply = string | number | null | Reply[];
+
+interface PendingCommand {
+  resolve: (reply: Reply) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export interface RedisClientOptions {
+  // Pending commands fail and the connection is dropped when a reply takes longer than this;
+  // an idle connection is kept open
+  timeoutMs?: number;
+}
+
+/**
+ * A minimal client for the Redis protocol (RESP2), enough for the result cache: one
+ * lazily opened connection, commands answered in order. Supports redis:// and rediss://
+ * URLs with an optional user, password and database number.
+ */
+export class RedisClient implements RedisCommands {
+  private url: URL;
+  private timeoutMs: number;
+  private socket: Socket | null = null;
+  private pending: PendingCommand[] = [];
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(url: string, options: RedisClientOptions = {}) {
+    this.url = new URL(url);
+    this.timeoutMs = options.timeoutMs ?? 2000;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return await this.command('GET', key) as string | null;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.command('SET', key, value, 'PX', String(Math.max(1, Math.floor(ttlMs))));
+  }
+
+  async incr(key: string): Promise<number> {
+    return await this.command('INCR', key) as number;
+  }
+
+  command(...args: string[]): Promise<Reply> {
+    const socket = this.connect();
+    return new Promise((resolve, reject) => {
+      // Replies come in order, so one that never comes would hold up every later command
+      const timer = setTimeout(() => socket.destroy(new Error('Redis command timed out')), this.timeoutMs);
+      this.pending.push({ resolve, reject, timer });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) return;
+    await this.command('QUIT').catch(() => undefined);
+    socket.destroy();
+    this.socket = null;
+  }
+
+  private connect(): Socket {
+    if (this.socket && !this.socket.destroyed) return this.socket;
+
+    const port = parseInt(this.url.port || '6379', 10);
+    const host = this.url.hostname;
+    const socket = this.url.protocol === 'rediss:' ? connectTls({ port, host, servername: host }) : connectTcp(port, host);
+
+    socket.on('error', error => this.failPending(socket, error));
+    socket.on('close', () => this.failPending(socket, new Error('Redis connection closed')));
+    socket.on('data', chunk => {
+      try {
+        this.receive(chunk);
+      } catch (error) {
+        socket.destroy(error as Error);
+      }
+    });
+
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    // Queued ahead of the first command, so it runs authenticated on the right database
+    const password = decodeURIComponent(this.url.password);
+    if (password) {
+      const username = decodeURIComponent(this.url.username);
+      this.command(...(username ? ['AUTH', username, password] : ['AUTH', password])).catch(() => undefined);
+    }
+    const database = this.url.pathname.slice(1);
+    if (/^\d+$/.test(database) && database !== '0') {
+      this.command('SELECT', database).catch(() => undefined);
+    }
+
+    return socket;
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let parsed: ParsedReply | null;
+    while ((parsed = parseReply(this.buffer, 0)) !== null) {
+      this.buffer = this.buffer.subarray(parsed.next);
+      const command = this.pending.shift();
+      if (!command) continue;
+
+      clearTimeout(command.timer);
+      if (parsed.error) {
+        command.reject(new Error(parsed.error));
+      } else {
+        command.resolve(parsed.reply);
+      }
+    }
+  }
+
+  private failPending(socket: Socket, error: Error): void {
+    // A connection replaced after closing has nothing pending any more
+    if (this.socket !== socket) return;
+
+    const pending = this.pending;
+    this.pending = [];
+    this.socket = null;
+    pending.forEach(command => {
+      clearTimeout(command.timer);
+      command.reject(error);
+    });
+  }
+}
+
+interface ParsedReply {
+  reply: Reply;
+  error?: string;
+  // Offset just past the reply
+  next: number;
+}
+
+export function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n` + args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('');
+}
+
+// Null when the buffer does not yet hold a complete reply
+export function parseReply(buffer: Buffer, offset: number): ParsedReply | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { reply: line, next };
+    case '-':
+      return { reply: null, error: line, next };
+    case ':':
+      return { reply: parseInt(line, 10), next };
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length === -1) return { reply: null, next };
+      if (buffer.length < next + length + 2) return null;
+      return { reply: buffer.toString('utf8', next, next + length), next: next + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line, 10);
+      if (count === -1) return { reply: null, next };
+
+      const items: Reply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item.reply);
+        position = item.next;
+      }
+      return { reply: items, next: position };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type ${type}`);
+  }
+}
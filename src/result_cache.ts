@@ -0,0 +1,192 @@
+import { createHash } from 'crypto';
+
+export interface CachedResult {
+  rows: any[];
+  truncated: boolean;
+  totalCount: number;
+  // Epoch milliseconds
+  storedAt: number;
+  expiresAt: number;
+}
+
+export type CacheStatus = 'hit' | 'miss' | 'bypass';
+
+export interface CacheMetadata {
+  status: CacheStatus;
+  // ISO timestamps of the result in the cache
+  storedAt: string;
+  expiresAt: string;
+}
+
+export interface CacheBackend {
+  get(key: string): Promise<CachedResult | null>;
+  set(key: string, value: CachedResult, ttlMs: number): Promise<void>;
+  clear(): Promise<void>;
+  close?(): Promise<void>;
+}
+
+export interface MemoryCacheOptions {
+  // Least recently used entries are evicted past this
+  maxEntries?: number;
+  now?: () => number;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  private entries: Map<string, CachedResult> = new Map();
+  private maxEntries: number;
+  private now: () => number;
+
+  constructor(options: MemoryCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 500;
+    this.now = options.now || Date.now;
+  }
+
+  async get(key: string): Promise<CachedResult | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Re-inserting keeps the map ordered from least to most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, value: CachedResult): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.maxEntries) {
+      const [oldest] = this.entries.keys();
+      this.entries.delete(oldest);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+// The commands RedisCacheBackend needs, as offered by RedisClient or any wrapper around another client
+export interface RedisCommands {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  incr(key: string): Promise<number>;
+  close?(): Promise<void>;
+}
+
+// Dates, such as pg's timestamps, are stored tagged so they come back as dates
+function replaceDate(this: any, key: string, value: unknown): unknown {
+  return this[key] instanceof Date ? { $date: value } : value;
+}
+
+function reviveDate(key: string, value: any): unknown {
+  return value && typeof value.$date === 'string' && Object.keys(value).length === 1 ? new Date(value.$date) : value;
+}
+
+/**
+ * Keeps results in Redis (or anything speaking its protocol), shared between instances.
+ * Keys carry a generation number, so clearing is a single INCR that every instance sees.
+ * Results are stored as JSON, with dates revived on the way back.
+ */
+export class RedisCacheBackend implements CacheBackend {
+  private client: RedisCommands;
+  private prefix: string;
+
+  constructor(client: RedisCommands, prefix: string = 'query-cache') {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  async get(key: string): Promise<CachedResult | null> {
+    const value = await this.client.get(await this.namespaced(key));
+    return value ? JSON.parse(value, reviveDate) as CachedResult : null;
+  }
+
+  async set(key: string, value: CachedResult, ttlMs: number): Promise<void> {
+    await this.client.set(await this.namespaced(key), JSON.stringify(value, replaceDate), ttlMs);
+  }
+
+  async clear(): Promise<void> {
+    await this.client.incr(`${this.prefix}:generation`);
+  }
+
+  async close(): Promise<void> {
+    if (this.client.close) await this.client.close();
+  }
+
+  private async namespaced(key: string): Promise<string> {
+    const generation = await this.client.get(`${this.prefix}:generation`) || '0';
+    return `${this.prefix}:${generation}:${key}`;
+  }
+}
+
+export interface ResultCacheOptions {
+  ttlMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Query results keyed by normalized SQL and parameters. Backend failures are logged and
+ * treated as misses, so a cache outage never fails a query.
+ */
+export class ResultCache {
+  private backend: CacheBackend;
+  private ttlMs: number;
+  private now: () => number;
+
+  constructor(backend: CacheBackend, options: ResultCacheOptions = {}) {
+    this.backend = backend;
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+    this.now = options.now || Date.now;
+  }
+
+  key(sql: string, params: any[]): string {
+    return createHash('sha256').update(JSON.stringify([sql, params])).digest('hex');
+  }
+
+  async get(sql: string, params: any[]): Promise<CachedResult | null> {
+    try {
+      return await this.backend.get(this.key(sql, params));
+    } catch (error) {
+      console.error('Result cache read failed:', error);
+      return null;
+    }
+  }
+
+  async set(sql: string, params: any[], value: Pick<CachedResult, 'rows' | 'truncated' | 'totalCount'>): Promise<CachedResult> {
+    const storedAt = this.now();
+    const result = { rows: value.rows, truncated: value.truncated, totalCount: value.totalCount, storedAt, expiresAt: storedAt + this.ttlMs };
+
+    try {
+      await this.backend.set(this.key(sql, params), result, this.ttlMs);
+    } catch (error) {
+      console.error('Result cache write failed:', error);
+    }
+    return result;
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.backend.clear();
+    } catch (error) {
+      console.error('Result cache clear failed:', error);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.backend.close) await this.backend.close();
+  }
+}
+
+export function cacheMetadata(status: CacheStatus, result: CachedResult): CacheMetadata {
+  return { status, storedAt: new Date(result.storedAt).toISOString(), expiresAt: new Date(result.expiresAt).toISOString() };
+}
@@ -0,0 +1,139 @@
+import { ColumnMetadata, ColumnType } from './query_service';
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'ndjson' | 'columnar';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'tsv', 'json', 'ndjson', 'columnar'];
+
+const CONTENT_TYPES: { [format in ExportFormat]: string } = {
+  csv: 'text/csv; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  columnar: 'application/json; charset=utf-8'
+};
+
+export function isExportFormat(format: unknown): format is ExportFormat {
+  return EXPORT_FORMATS.includes(format as ExportFormat);
+}
+
+export function contentType(format: ExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+// "Trips by hour in June?" -> "trips-by-hour-in-june.csv"
+export function exportFilename(question: string, format: ExportFormat): string {
+  const slug = question.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'result';
+  return `${slug}.${format === 'columnar' ? 'json' : format}`;
+}
+
+/**
+ * Serializes rows batch by batch in an export format. Values are typed from the columns:
+ * numbers (which pg returns as strings for COUNT and NUMERIC) as numbers, timestamps as
+ * ISO 8601, dates as YYYY-MM-DD and nulls as empty cells or JSON null.
+ */
+export class ExportWriter {
+  private format: ExportFormat;
+  private columns: ColumnMetadata[];
+  private rowCount: number = 0;
+  // Columnar output needs every row before it can be written
+  private values: any[][];
+
+  constructor(format: ExportFormat, columns: ColumnMetadata[]) {
+    this.format = format;
+    this.columns = columns;
+    this.values = columns.map(() => []);
+  }
+
+  start(): string {
+    switch (this.format) {
+      case 'csv':
+        return this.columns.map(c => csvCell(c.name)).join(',') + '\r\n';
+      case 'tsv':
+        return this.columns.map(c => tsvCell(c.name)).join('\t') + '\n';
+      case 'json':
+        return '[';
+      default:
+        return '';
+    }
+  }
+
+  write(rows: any[]): string {
+    const chunks = rows.map(row => {
+      const values = this.columns.map(column => typedValue(row[column.name], column.type));
+      const first = this.rowCount === 0;
+      this.rowCount++;
+
+      switch (this.format) {
+        case 'csv':
+          return values.map((value, i) => csvCell(textValue(value), this.columns[i].type)).join(',') + '\r\n';
+        case 'tsv':
+          return values.map(value => tsvCell(textValue(value))).join('\t') + '\n';
+        case 'json':
+          return (first ? '' : ',') + JSON.stringify(this.toObject(values));
+        case 'ndjson':
+          return JSON.stringify(this.toObject(values)) + '\n';
+        case 'columnar':
+          values.forEach((value, i) => this.values[i].push(value));
+          return '';
+      }
+    });
+    return chunks.join('');
+  }
+
+  end(): string {
+    switch (this.format) {
+      case 'json':
+        return ']';
+      case 'columnar':
+        return JSON.stringify({
+          columns: this.columns.map(c => ({ name: c.name, type: c.type })),
+          rowCount: this.rowCount,
+          data: Object.fromEntries(this.columns.map((c, i) => [c.name, this.values[i]]))
+        });
+      default:
+        return '';
+    }
+  }
+
+  private toObject(values: any[]): { [column: string]: any } {
+    return Object.fromEntries(this.columns.map((c, i) => [c.name, values[i]]));
+  }
+}
+
+function typedValue(value: any, type: ColumnType): any {
+  if (value === null || value === undefined) return null;
+
+  switch (type) {
+    case 'number': {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : String(value);
+    }
+    case 'timestamp':
+      return value instanceof Date ? value.toISOString() : String(value);
+    case 'date':
+      // pg reads DATE as local midnight, so the local calendar day is the stored one
+      return value instanceof Date
+        ? `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`
+        : String(value);
+    case 'boolean':
+      return typeof value === 'boolean' ? value : value === 't' || value === 'true';
+    default:
+      return value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+function textValue(value: any): string {
+  return value === null ? '' : String(value);
+}
+
+function csvCell(text: string, type: ColumnType = 'string'): string {
+  // Spreadsheets run text starting with these as formulas; negative numbers are left alone
+  const formula = type === 'string' && /^[=+\-@\t\r]/.test(text) && !Number.isFinite(Number(text));
+  const safe = formula ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// TSV has no quoting, so separators inside values become spaces
+function tsvCell(text: string): string {
+  return text.replace(/[\t\r\n]+/g, ' ');
+}
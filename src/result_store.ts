@@ -0,0 +1,67 @@
+import { randomUUID } from 'crypto';
+import { QueryPlan } from './query_plan';
+import { ColumnMetadata } from './query_service';
+
+export interface StoredQuery {
+  id: string;
+  question: string;
+  sql: string;
+  params: any[];
+  plan?: QueryPlan;
+  // Absent for SQL without a plan, whose columns are only known from its rows
+  columns?: ColumnMetadata[];
+  createdAt: number;
+}
+
+export interface ResultStoreOptions {
+  ttlMs?: number;
+  maxEntries?: number;
+  now?: () => number;
+}
+
+/**
+ * Answered queries by ID, so their results can be exported later. Only the query is kept,
+ * not its rows: exports run it again. Least recently used entries are evicted first.
+ */
+export class ResultStore {
+  private entries: Map<string, StoredQuery> = new Map();
+  private ttlMs: number;
+  private maxEntries: number;
+  private now: () => number;
+
+  constructor(options: ResultStoreOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.now = options.now || Date.now;
+  }
+
+  add(query: Omit<StoredQuery, 'id' | 'createdAt'>): string {
+    const id = randomUUID();
+    this.entries.set(id, { ...query, id, createdAt: this.now() });
+
+    while (this.entries.size > this.maxEntries) {
+      const [oldest] = this.entries.keys();
+      this.entries.delete(oldest);
+    }
+    return id;
+  }
+
+  get(id: string): StoredQuery | null {
+    const entry = this.entries.get(id);
+    if (!entry) return null;
+
+    if (this.now() - entry.createdAt > this.ttlMs) {
+      this.entries.delete(id);
+      return null;
+    }
+
+    // Re-inserting keeps the map ordered from least to most recently used
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+    return entry;
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
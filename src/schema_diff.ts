@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import { TableInfo, ColumnInfo } from './database_service';
+
+export interface ColumnChange {
+  table: string;
+  column: string;
+  // "integer NOT NULL", before and after
+  from: string;
+  to: string;
+}
+
+export interface SchemaDiff {
+  addedTables: string[];
+  removedTables: string[];
+  // "table.column"
+  addedColumns: string[];
+  removedColumns: string[];
+  changedColumns: ColumnChange[];
+  // Tables whose primary, foreign or unique keys changed, which changes the joins
+  changedKeys: string[];
+}
+
+export function diffSchemas(previous: TableInfo[], next: TableInfo[]): SchemaDiff {
+  const before = new Map(previous.map(table => [table.table_name, table]));
+  const after = new Map(next.map(table => [table.table_name, table]));
+
+  const diff: SchemaDiff = {
+    addedTables: next.filter(table => !before.has(table.table_name)).map(table => table.table_name),
+    removedTables: previous.filter(table => !after.has(table.table_name)).map(table => table.table_name),
+    addedColumns: [],
+    removedColumns: [],
+    changedColumns: [],
+    changedKeys: []
+  };
+
+  for (const table of next) {
+    const old = before.get(table.table_name);
+    if (!old) continue;
+
+    const oldColumns = new Map(old.columns.map(c => [c.column_name, c]));
+    const newColumns = new Map(table.columns.map(c => [c.column_name, c]));
+
+    for (const column of table.columns) {
+      const oldColumn = oldColumns.get(column.column_name);
+      if (!oldColumn) {
+        diff.addedColumns.push(`${table.table_name}.${column.column_name}`);
+      } else if (describeColumn(oldColumn) !== describeColumn(column)) {
+        diff.changedColumns.push({
+          table: table.table_name,
+          column: column.column_name,
+          from: describeColumn(oldColumn),
+          to: describeColumn(column)
+        });
+      }
+    }
+    for (const column of old.columns) {
+      if (!newColumns.has(column.column_name)) {
+        diff.removedColumns.push(`${table.table_name}.${column.column_name}`);
+      }
+    }
+
+    if (JSON.stringify(keysOf(old)) !== JSON.stringify(keysOf(table))) {
+      diff.changedKeys.push(table.table_name);
+    }
+  }
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: SchemaDiff): boolean {
+  return Object.values(diff).every(changes => changes.length === 0);
+}
+
+// One line per change, for logs
+export function describeDiff(diff: SchemaDiff): string[] {
+  return [
+    ...diff.addedTables.map(table => `added table ${table}`),
+    ...diff.removedTables.map(table => `removed table ${table}`),
+    ...diff.addedColumns.map(column => `added column ${column}`),
+    ...diff.removedColumns.map(column => `removed column ${column}`),
+    ...diff.changedColumns.map(c => `changed column ${c.table}.${c.column} from ${c.from} to ${c.to}`),
+    ...diff.changedKeys.map(table => `changed keys of ${table}`)
+  ];
+}
+
+/**
+ * A short hash of tables, columns and keys. Equal schemas get the same version whatever
+ * the order they were introspected in, so instances can compare versions.
+ */
+export function schemaVersion(schema: TableInfo[]): string {
+  const canonical = [...schema]
+    .sort((a, b) => a.table_name.localeCompare(b.table_name))
+    .map(table => ({
+      table: table.table_name,
+      columns: table.columns.map(c => `${c.column_name} ${describeColumn(c)}`).sort(),
+      keys: keysOf(table)
+    }));
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex').slice(0, 12);
+}
+
+function describeColumn(column: ColumnInfo): string {
+  return `${column.data_type}${column.is_nullable === 'NO' ? ' NOT NULL' : ''}`;
+}
+
+function keysOf(table: TableInfo) {
+  return {
+    primary: table.primary_key || [],
+    foreign: (table.foreign_keys || [])
+      .map(fk => `(${fk.columns.join(',')}) -> ${fk.foreign_table}(${fk.foreign_columns.join(',')})`)
+      .sort(),
+    unique: (table.unique_constraints || []).map(columns => columns.join(',')).sort()
+  };
+}
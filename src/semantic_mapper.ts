@@ -1,5 +1,9 @@
 import * as stringSimilarity from 'string-similarity';
 import { ColumnInfo, TableInfo } from './database_service';
+import { SemanticModel, loadSemanticModel, toExpression } from './semantic_model';
+import { referencedTables } from './query_plan';
+import { JoinGraph } from './join_graph';
+import { ValueIndex, ValueMatch, normalizeValue } from './value_index';
 
 export interface ColumnMapping {
   table: string;
@@ -8,10 +12,26 @@ export interface ColumnMapping {
   type: string;
 }
 
+export interface Ranking {
+  limit: number;
+  direction: 'ASC' | 'DESC';
+}
+
 export interface SemanticContext {
   tables: TableInfo[];
   userWords: string[];
   intent: QueryIntent;
+  // Dimension names from "by hour", "per day", "for each gender"
+  breakdowns: string[];
+  // "top 5", "bottom 3"
+  ranking: Ranking | null;
+  // Roles named in the question by table, e.g. { stations: 'end' } for "end station"
+  roles: { [table: string]: string };
+}
+
+export interface ValueReference extends ValueMatch {
+  // Role given by the words before the value, e.g. "end" in "trips ending at Zilker Park"
+  role: string | null;
 }
 
 export enum QueryIntent {
@@ -21,20 +41,63 @@ export enum QueryIntent {
   MAX = 'max',
   MIN = 'min',
   LIST = 'list',
-  FILTER = 'filter'
+  FILTER = 'filter',
+  COMPARE = 'compare'
+}
+
+export interface SemanticMatch {
+  name: string;
+  // The synonym that matched, longest first
+  phrase: string;
 }
 
 export class SemanticMapper {
   private schema: TableInfo[] = [];
   private columnCache: Map<string, ColumnMapping[]> = new Map();
+  private model: SemanticModel;
+  private joinGraph: JoinGraph | null = null;
+  private valueIndex: ValueIndex = new ValueIndex();
+
+  constructor(model: SemanticModel = loadSemanticModel()) {
+    this.model = model;
+  }
+
+  getSemanticModel(): SemanticModel {
+    return this.model;
+  }
 
   setSchema(schema: TableInfo[]): void {
     this.schema = schema;
     this.columnCache.clear();
+    this.joinGraph = null;
+  }
+
+  getSchema(): TableInfo[] {
+    return this.schema;
+  }
+
+  getJoinGraph(): JoinGraph {
+    if (!this.joinGraph) {
+      this.joinGraph = new JoinGraph(this.schema, this.model.joins, this.model.fact_table);
+    }
+    return this.joinGraph;
+  }
+
+  setValueIndex(valueIndex: ValueIndex): void {
+    this.valueIndex = valueIndex;
+  }
+
+  getValueIndex(): ValueIndex {
+    return this.valueIndex;
   }
 
   detectIntent(question: string): QueryIntent {
     const lowerQuestion = question.toLowerCase();
+
+    // Two cohorts ("June vs May") take precedence over how each is aggregated
+    if (this.splitComparison(question)) {
+      return QueryIntent.COMPARE;
+    }
     
     // Check for distance/kilometres first - these should be SUM queries
     if (lowerQuestion.includes('kilometres') || lowerQuestion.includes('km') || 
@@ -48,7 +111,8 @@ export class SemanticMapper {
     if (lowerQuestion.includes('sum') || lowerQuestion.includes('total')) {
       return QueryIntent.SUM;
     }
-    if (lowerQuestion.includes('maximum') || lowerQuestion.includes('max') || lowerQuestion.includes('most')) {
+    if (lowerQuestion.includes('maximum') || lowerQuestion.includes('max') || lowerQuestion.includes('most') ||
+        lowerQuestion.includes('busiest') || lowerQuestion.includes('popular')) {
       return QueryIntent.MAX;
     }
     if (lowerQuestion.includes('minimum') || lowerQuestion.includes('min') || lowerQuestion.includes('least')) {
@@ -138,27 +202,210 @@ export class SemanticMapper {
   }
 
   private getSynonyms(word: string): string[] {
-    const synonymMap: { [key: string]: string[] } = {
-      'time': ['duration', 'minutes', 'hours', 'ride_time'],
-      'duration': ['time', 'minutes', 'hours', 'ride_time'],
-      'minutes': ['time', 'duration', 'hours', 'ride_time'],
-      'station': ['docking', 'point', 'stop', 'hub', 'avenue'],
-      'docking': ['station', 'point', 'stop', 'hub', 'avenue'],
-      'point': ['station', 'docking', 'stop', 'hub', 'avenue'],
-      'departure': ['start', 'beginning', 'leave', 'depart'],
-      'start': ['departure', 'beginning', 'leave', 'depart'],
-      'kilometres': ['km', 'distance', 'miles', 'length'],
-      'km': ['kilometres', 'distance', 'miles', 'length'],
-      'distance': ['kilometres', 'km', 'miles', 'length'],
-      'women': ['female', 'woman', 'girl'],
-      'female': ['women', 'woman', 'girl'],
-      'rainy': ['rain', 'wet', 'stormy', 'precipitation'],
-      'rain': ['rainy', 'wet', 'stormy', 'precipitation'],
-      'congress': ['avenue', 'street', 'road'],
-      'avenue': ['congress', 'street', 'road']
+    return this.model.synonyms[word.toLowerCase()] || [];
+  }
+
+  // Metrics, dimensions and segments named in the question, best match first
+  findMetrics(question: string): SemanticMatch[] {
+    return this.matchDefinitions(question, this.model.metrics);
+  }
+
+  findDimensions(question: string): SemanticMatch[] {
+    return this.matchDefinitions(question, this.model.dimensions);
+  }
+
+  findSegments(question: string): SemanticMatch[] {
+    return this.matchDefinitions(question, this.model.segments);
+  }
+
+  findBreakdowns(question: string): string[] {
+    const text = this.normalize(question);
+    const breakdowns: string[] = [];
+    const keyword = /\b(?:grouped by|broken down by|for each|for every|by|per|each|across)\s+/g;
+    const roles = [...new Set(this.getJoinGraph().getEdges().filter(e => e.role).map(e => e.role!))];
+    const qualifiers = new RegExp(`^(?:${['the', 'a', 'an', ...roles, ...roles.map(role => `${role}ing`)].join('|')})\\s+`);
+
+    let match: RegExpExecArray | null;
+    while ((match = keyword.exec(text)) !== null) {
+      let rest = text.slice(match.index + match[0].length);
+
+      // "by gender and weather" lists several dimensions
+      while (true) {
+        // "by end station" breaks down by station; the role is resolved separately
+        while (qualifiers.test(rest)) rest = rest.replace(qualifiers, '');
+        const dimension = this.matchLeading(rest, this.model.dimensions);
+        if (!dimension) break;
+
+        if (!breakdowns.includes(dimension.name)) breakdowns.push(dimension.name);
+        rest = rest.slice(dimension.phrase.length).trim();
+
+        const conjunction = rest.match(/^(?:and|then)\s+/);
+        if (!conjunction) break;
+        rest = rest.slice(conjunction[0].length);
+      }
+    }
+
+    // Asking about routes groups by them wherever they are named, e.g. "routes from A to B"
+    for (const dimension of this.findDimensions(question)) {
+      if (this.model.dimensions[dimension.name].roles && !breakdowns.includes(dimension.name)) {
+        breakdowns.push(dimension.name);
+      }
+    }
+
+    return breakdowns;
+  }
+
+  /**
+   * Splits "rainy vs dry days" or "how did June compare to May" into the text on either
+   * side of the comparison, or returns null when the question compares nothing.
+   */
+  splitComparison(question: string): [string, string] | null {
+    const text = this.normalize(question);
+
+    const leading = text.match(/^(?:.*?\s)?compare\s+(.+?)\s+(?:and|with|to|against)\s+(.+)$/);
+    if (leading) return [leading[1], leading[2]];
+
+    const match = text.match(/^(.+?)\s+(?:vs|versus|compared to|compared with|compare to|compare with|against)\s+(.+)$/);
+    return match ? [match[1], match[2]] : null;
+  }
+
+  // "and what about July?", "now only for women", "without the weather filter", or "by station" on its own
+  isFollowUp(question: string): boolean {
+    const text = this.normalize(question);
+    if (/^(?:and|but|also|now|then|same|instead|only|just|what about|how about|what if|without|remove|drop|ignore|regardless of)\b/.test(text)) {
+      return true;
+    }
+    return /^(?:by|per|for|in|on|during|at|from|between|with)\b/.test(text) && this.findMetrics(question).length === 0;
+  }
+
+  // Words naming filters to drop, e.g. "weather" in "without the weather filter"
+  findRemovals(question: string): string[] {
+    const removals: string[] = [];
+    const pattern = /\b(?:without|remove|drop|ignore|regardless of|for all|across all|any)\s+(?:the\s+)?(\w+)/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(this.normalize(question))) !== null) {
+      removals.push(match[1]);
+    }
+    return removals;
+  }
+
+  findValues(question: string): ValueReference[] {
+    const words = normalizeValue(question).split(' ');
+    return this.valueIndex.match(question).map(match => ({
+      ...match,
+      role: this.roleBefore(words.slice(0, match.start).join(' '), match.table)
+    }));
+  }
+
+  private roleBefore(text: string, table: string): string | null {
+    let best: { role: string; cue: string } | null = null;
+
+    for (const [role, cues] of Object.entries(this.roleCues(table))) {
+      for (const cue of cues) {
+        const pattern = new RegExp(`\\b${cue}(?:\\s+(?:at|in|the))*$`);
+        if (pattern.test(text) && (!best || cue.length > best.cue.length)) {
+          best = { role, cue };
+        }
+      }
+    }
+    return best ? best.role : null;
+  }
+
+  // Words placing a value in each role of a table: the role itself ("end", "ended") and the value prefixes of its declared join
+  private roleCues(table: string): { [role: string]: string[] } {
+    const cues: { [role: string]: string[] } = {};
+    for (const role of this.getJoinGraph().rolesOf(table)) {
+      const declared = this.model.joins.filter(j => j.table === table && j.role === role).flatMap(j => j.value_prefixes || []);
+      cues[role] = [role, `${role}ed`, `${role}ing`, `${role}s`, ...declared].map(normalizeValue);
+    }
+    return cues;
+  }
+
+  /**
+   * Roles the question asks about by table: "end station", or a role's vocabulary such
+   * as "arrivals" or "destination". Departures and arrivals are told apart this way.
+   */
+  findRoles(question: string): { [table: string]: string } {
+    const text = this.normalize(question);
+    const graph = this.getJoinGraph();
+    const roles: { [table: string]: string } = {};
+
+    for (const table of new Set(graph.getEdges().map(e => e.to))) {
+      const words = this.tableWords(table);
+      const named = graph.rolesOf(table).find(role =>
+        new RegExp(`\\b${role}(?:ing)?\\s+(?:\\w+\\s+)?(?:${words.join('|')})\\b`).test(text));
+      const described = graph.rolesOf(table).find(role =>
+        this.roleWords(table, role).some(word => new RegExp(`\\b${word}\\b`).test(text)));
+
+      const role = named || described;
+      if (role) roles[table] = role;
+    }
+    return roles;
+  }
+
+  private roleWords(table: string, role: string): string[] {
+    const declared = this.model.joins.filter(j => j.table === table && j.role === role).flatMap(j => j.synonyms || []);
+    // The bare role is left out: "the end of June" says nothing about stations
+    return [`${role}ed`, `${role}ing`, ...declared].map(word => this.normalize(word));
+  }
+
+  // Words a question can use for a table: its name and the synonyms of dimensions read from it
+  tableWords(table: string): string[] {
+    const words = new Set([table.replace(/_/g, ' '), table.replace(/s$/, '').replace(/_/g, ' ')]);
+    for (const dimension of Object.values(this.model.dimensions)) {
+      const expression = toExpression(dimension.expression);
+      if (!dimension.roles && referencedTables(expression).includes(table)) {
+        dimension.synonyms.forEach(synonym => words.add(synonym.toLowerCase()));
+      }
+    }
+    return [...words].sort((a, b) => b.length - a.length);
+  }
+
+  detectRanking(question: string): Ranking | null {
+    const match = this.normalize(question).match(/\b(top|bottom)(?:\s+(\d+))?\b/);
+    if (!match) return null;
+
+    return {
+      limit: match[2] ? Math.max(1, parseInt(match[2])) : 10,
+      direction: match[1] === 'top' ? 'DESC' : 'ASC'
     };
-    
-    return synonymMap[word.toLowerCase()] || [];
+  }
+
+  private matchLeading(text: string, definitions: { [name: string]: { synonyms: string[] } }): SemanticMatch | null {
+    let best: SemanticMatch | null = null;
+
+    for (const [name, definition] of Object.entries(definitions)) {
+      for (const phrase of [name.replace(/_/g, ' '), ...(definition.synonyms || [])].map(p => p.toLowerCase())) {
+        if ((text === phrase || text.startsWith(`${phrase} `)) && (!best || phrase.length > best.phrase.length)) {
+          best = { name, phrase };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private normalize(question: string): string {
+    return question.toLowerCase().replace(/[^\w\s]/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  private matchDefinitions(question: string, definitions: { [name: string]: { synonyms: string[] } }): SemanticMatch[] {
+    const text = ` ${this.normalize(question)} `;
+    const matches: SemanticMatch[] = [];
+
+    for (const [name, definition] of Object.entries(definitions)) {
+      const phrases = [name.replace(/_/g, ' '), ...(definition.synonyms || [])]
+        .map(phrase => phrase.toLowerCase())
+        .filter(phrase => text.includes(` ${phrase} `))
+        .sort((a, b) => b.length - a.length);
+
+      if (phrases.length > 0) {
+        matches.push({ name, phrase: phrases[0] });
+      }
+    }
+
+    return matches.sort((a, b) => b.phrase.length - a.phrase.length);
   }
 
   buildSemanticContext(question: string): SemanticContext {
@@ -168,7 +415,10 @@ export class SemanticMapper {
     return {
       tables: this.schema,
       userWords,
-      intent
+      intent,
+      breakdowns: this.findBreakdowns(question),
+      ranking: this.detectRanking(question),
+      roles: this.findRoles(question)
     };
   }
 }
\ No newline at end of file
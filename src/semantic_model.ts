@@ -0,0 +1,206 @@
+import fs from 'fs';
+import defaultModel from './default_semantic_model.json';
+import {
+  AggregateFunction,
+  ColumnExpression,
+  DatePart,
+  Expression,
+  FilterOperator,
+  column
+} from './query_plan';
+
+export const SEMANTIC_MODEL_VERSION = 1;
+
+// Expressions are written as "table.column" or as a single-key object naming the kind
+export type ExpressionDefinition =
+  | string
+  | { duration_minutes: { start: string; end: string } }
+  | { date: string }
+  | { date_part: DatePart; of: string }
+  | { sql: string; tables: string[] };
+
+export interface MetricDefinition {
+  description?: string;
+  // null when the expression already aggregates, e.g. "SUM(trips.price) / COUNT(*)"
+  aggregate: AggregateFunction | null;
+  // Omitted to count rows
+  expression?: ExpressionDefinition;
+  // Decimals the value is rounded to
+  precision?: number;
+  // e.g. "km"; km, miles, minutes and hours convert when a question asks for another one
+  unit?: string;
+  synonyms: string[];
+}
+
+export interface DimensionDefinition {
+  description?: string;
+  expression: ExpressionDefinition;
+  // Groups by the expression once per role, e.g. a route is a start and an end station
+  roles?: string[];
+  synonyms: string[];
+}
+
+export interface SegmentDefinition {
+  description?: string;
+  // Segments sharing a field are alternatives, e.g. women and men
+  field: string;
+  expression: ExpressionDefinition;
+  operator: FilterOperator;
+  value: string | number | boolean;
+  // Words describing matching rows in an answer, e.g. "on rainy days"
+  phrase?: string;
+  synonyms: string[];
+}
+
+export interface JoinDefinition {
+  table: string;
+  // Distinguishes several joins into the same table, e.g. start and end stations
+  role?: string;
+  type?: 'INNER' | 'LEFT';
+  left: ExpressionDefinition;
+  right: ExpressionDefinition;
+  // Words asking about this role anywhere in a question, e.g. "arrivals" for end stations
+  synonyms?: string[];
+  // Words placing a value in this role, e.g. "from" before a start station's name
+  value_prefixes?: string[];
+}
+
+export interface SemanticModel {
+  version: number;
+  fact_table: string;
+  // The timestamp that dates in a question filter on, e.g. "trips.started_at"
+  time_column: string;
+  metrics: { [name: string]: MetricDefinition };
+  dimensions: { [name: string]: DimensionDefinition };
+  segments: { [name: string]: SegmentDefinition };
+  joins: JoinDefinition[];
+  // Role used when a question does not say which one it means
+  default_roles: { [table: string]: string };
+  synonyms: { [word: string]: string[] };
+}
+
+const AGGREGATES = ['count', 'avg', 'sum', 'max', 'min'];
+const OPERATORS = ['=', '<>', '>', '>=', '<', '<=', 'ILIKE'];
+const DATE_PARTS = ['hour', 'dow', 'day', 'week', 'month', 'year'];
+
+/**
+ * Loads the semantic model from `filePath`, or the bundled model when no path is given.
+ * Throws when the file is not a valid model of a supported version.
+ */
+export function loadSemanticModel(filePath?: string): SemanticModel {
+  if (!filePath) {
+    return validateSemanticModel(defaultModel);
+  }
+
+  const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  return validateSemanticModel(raw);
+}
+
+export function validateSemanticModel(raw: any): SemanticModel {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid semantic model: ${message}`);
+  };
+
+  if (!raw || typeof raw !== 'object') fail('expected an object');
+  if (raw.version !== SEMANTIC_MODEL_VERSION) fail(`unsupported version ${raw.version}, expected ${SEMANTIC_MODEL_VERSION}`);
+  if (typeof raw.fact_table !== 'string') fail('fact_table must be a string');
+  if (typeof raw.time_column !== 'string') fail('time_column must be a "table.column" string');
+  checkExpression(raw.time_column, 'time_column', fail);
+
+  for (const [name, metric] of Object.entries<any>(raw.metrics || {})) {
+    if (metric.aggregate !== null && !AGGREGATES.includes(metric.aggregate)) fail(`metric ${name} has unknown aggregate ${metric.aggregate}`);
+    if (metric.aggregate !== 'count' && metric.expression === undefined) fail(`metric ${name} needs an expression`);
+    if (metric.expression !== undefined) checkExpression(metric.expression, `metric ${name}`, fail);
+    if (metric.precision !== undefined && (!Number.isInteger(metric.precision) || metric.precision < 0)) fail(`metric ${name} precision must be a whole number`);
+    if (metric.unit !== undefined && typeof metric.unit !== 'string') fail(`metric ${name} unit must be a string`);
+    checkSynonyms(metric.synonyms, `metric ${name}`, fail);
+  }
+
+  for (const [name, dimension] of Object.entries<any>(raw.dimensions || {})) {
+    checkExpression(dimension.expression, `dimension ${name}`, fail);
+    if (dimension.roles !== undefined && (!Array.isArray(dimension.roles) || dimension.roles.some((role: any) => !/^\w+$/.test(role)))) {
+      fail(`dimension ${name} roles must be a list of role names`);
+    }
+    checkSynonyms(dimension.synonyms, `dimension ${name}`, fail);
+  }
+
+  for (const [name, segment] of Object.entries<any>(raw.segments || {})) {
+    if (typeof segment.field !== 'string') fail(`segment ${name} needs a field`);
+    if (!OPERATORS.includes(segment.operator)) fail(`segment ${name} has unknown operator ${segment.operator}`);
+    if (!['string', 'number', 'boolean'].includes(typeof segment.value)) fail(`segment ${name} needs a scalar value`);
+    if (segment.phrase !== undefined && typeof segment.phrase !== 'string') fail(`segment ${name} phrase must be a string`);
+    checkExpression(segment.expression, `segment ${name}`, fail);
+    checkSynonyms(segment.synonyms, `segment ${name}`, fail);
+  }
+
+  for (const join of raw.joins || []) {
+    if (typeof join.table !== 'string') fail('join needs a table');
+    if (join.role !== undefined && !/^\w+$/.test(join.role)) fail(`join ${join.table} has an invalid role`);
+    checkExpression(join.left, `join ${join.table}`, fail);
+    checkExpression(join.right, `join ${join.table}`, fail);
+    checkSynonyms(join.synonyms, `join ${join.table}`, fail);
+    checkSynonyms(join.value_prefixes, `join ${join.table} value_prefixes`, fail);
+  }
+
+  for (const [word, synonyms] of Object.entries<any>(raw.synonyms || {})) {
+    checkSynonyms(synonyms, `synonym ${word}`, fail);
+  }
+
+  return {
+    version: raw.version,
+    fact_table: raw.fact_table,
+    time_column: raw.time_column,
+    metrics: raw.metrics || {},
+    dimensions: raw.dimensions || {},
+    segments: raw.segments || {},
+    joins: raw.joins || [],
+    default_roles: raw.default_roles || {},
+    synonyms: raw.synonyms || {}
+  };
+}
+
+function checkExpression(definition: any, owner: string, fail: (message: string) => never): void {
+  try {
+    toExpression(definition);
+  } catch (error) {
+    fail(`${owner}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function checkSynonyms(synonyms: any, owner: string, fail: (message: string) => never): void {
+  if (synonyms !== undefined && (!Array.isArray(synonyms) || synonyms.some(s => typeof s !== 'string'))) {
+    fail(`${owner} synonyms must be a list of strings`);
+  }
+}
+
+export function toExpression(definition: ExpressionDefinition): Expression {
+  if (typeof definition === 'string') {
+    return toColumn(definition);
+  }
+  if (definition && typeof definition === 'object') {
+    if ('duration_minutes' in definition) {
+      return { kind: 'duration_minutes', start: toColumn(definition.duration_minutes.start), end: toColumn(definition.duration_minutes.end) };
+    }
+    if ('date_part' in definition) {
+      if (!DATE_PARTS.includes(definition.date_part)) {
+        throw new Error(`unknown date part ${definition.date_part}`);
+      }
+      return { kind: 'date_part', part: definition.date_part, of: toColumn(definition.of) };
+    }
+    if ('date' in definition) {
+      return { kind: 'date', of: toColumn(definition.date) };
+    }
+    if ('sql' in definition && Array.isArray(definition.tables)) {
+      return { kind: 'raw', sql: definition.sql, tables: definition.tables };
+    }
+  }
+  throw new Error(`unsupported expression ${JSON.stringify(definition)}`);
+}
+
+function toColumn(reference: string): ColumnExpression {
+  const match = typeof reference === 'string' ? reference.match(/^(\w+)\.(\w+)$/) : null;
+  if (!match) {
+    throw new Error(`expected "table.column", got ${JSON.stringify(reference)}`);
+  }
+  return column(match[1], match[2]);
+}
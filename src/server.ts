@@ -3,126 +3,439 @@ import cors from 'cors';
 import helmet from 'helmet';
 import path from 'path';
 import dotenv from 'dotenv';
-import { QueryService } from './query_service';
+import { timingSafeEqual } from 'crypto';
+import { QueryService, QueryResponse } from './query_service';
+import { createDataSource, databaseConfigFromEnv } from './database_service';
+import { ExportWriter, EXPORT_FORMATS, isExportFormat, contentType, exportFilename } from './result_export';
+import { IngestError, IngestKind, INGEST_KINDS, readCsv, readGbfsStations } from './ingestion';
+import { QueryError } from './query_error';
+import { ApiKey, ApiKeyStore, RateLimiter } from './api_keys';
 
 // Load environment variables
 dotenv.config();
 
-const app = express();
 const port = process.env.PORT || 3000;
-const queryService = new QueryService();
-
-// Security middleware
-app.use(helmet({
-  contentSecurityPolicy: {
-    directives: {
-      defaultSrc: ["'self'"],
-      styleSrc: ["'self'", "'unsafe-inline'", "https://fonts.googleapis.com"],
-      fontSrc: ["'self'", "https://fonts.gstatic.com"],
-      scriptSrc: ["'self'", "'unsafe-inline'"],
-      scriptSrcAttr: ["'unsafe-inline'"],
-      imgSrc: ["'self'", "data:", "https:"],
+
+// Admin endpoints take `Authorization: Bearer <ADMIN_TOKEN>` and are disabled without one
+function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(403).json({ error: 'Admin endpoints are disabled, set ADMIN_TOKEN to enable them' });
+  }
+
+  const given = Buffer.from((req.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(token);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return res.status(401).json({ error: 'Invalid admin token' });
+  }
+  next();
+}
+
+// /query endpoints take `Authorization: Bearer <key>` or `X-API-Key: <key>`, within the key's limits
+function requireApiKey(store: ApiKeyStore, limiter: RateLimiter): express.RequestHandler {
+  return (req, res, next) => {
+    const given = (req.get('X-API-Key') || (req.headers.authorization || '').replace(/^Bearer\s+/i, '')).trim();
+    let apiKey: ApiKey | null;
+    try {
+      apiKey = given ? store.verify(given) : null;
+    } catch (error) {
+      // A malformed keys file lets nobody in until it is fixed
+      console.error('Could not read the API keys:', error);
+      return res.status(503).json({ error: 'API keys are unavailable, try again later' });
+    }
+    if (!apiKey) {
+      console.warn(`Rejected ${req.method} ${req.originalUrl} from ${req.ip}: ${given ? 'invalid' : 'no'} API key`);
+      res.set('WWW-Authenticate', 'Bearer realm="query"');
+      return res.status(401).json({
+        error: given ? 'Invalid or revoked API key' : 'An API key is required, as Authorization: Bearer <key> or X-API-Key'
+      });
+    }
+
+    const decision = limiter.take(apiKey);
+    if (!decision.allowed) {
+      const limit = decision.reason === 'rate' ? `${apiKey.ratePerMinute} queries per minute` : `${apiKey.dailyQuota} queries per day`;
+      console.warn(`Rejected ${req.method} ${req.originalUrl} for ${describeKey(apiKey)}: over ${limit}`);
+      res.set('Retry-After', String(decision.retryAfterSeconds));
+      return res.status(429).json({ error: `This key is limited to ${limit}`, retryAfter: decision.retryAfterSeconds });
+    }
+
+    res.locals.apiKey = apiKey;
+    res.set('X-Quota-Remaining', String(decision.remainingToday));
+    console.log(`${req.method} ${req.originalUrl} by ${describeKey(apiKey)}, ${decision.remainingToday} queries left today`);
+    next();
+  };
+}
+
+function describeKey(apiKey: ApiKey): string {
+  return `key "${apiKey.name}" (${apiKey.id})`;
+}
+
+// Who sent the request, for logs
+function requester(res: express.Response): string {
+  return res.locals.apiKey ? describeKey(res.locals.apiKey) : 'anonymous';
+}
+
+// The body of /query and /query/stream, or an error message
+function validateQueryRequest(body: any): string | null {
+  const { question, sessionId } = body;
+
+  if (!question || typeof question !== 'string') {
+    return 'Question is required and must be a string';
+  }
+  if (sessionId !== undefined && (typeof sessionId !== 'string' || !/^[\w-]{1,64}$/.test(sessionId))) {
+    return 'sessionId must be a string of up to 64 letters, digits, dashes or underscores';
+  }
+  return null;
+}
+
+function statusFor(response: QueryResponse): number {
+  switch (response.errorCode) {
+    case undefined:
+      return 500;
+    case 'INVALID_CURSOR':
+      return 400;
+    case 'STATEMENT_TIMEOUT':
+      return 504;
+    case 'GENERATION_FAILED':
+      return 502;
+    default:
+      return 422;
+  }
+}
+
+// Resolves once the response takes more data or is closed
+function drained(res: express.Response): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+export interface AppOptions {
+  // Required by the /query endpoints when given
+  apiKeys?: ApiKeyStore;
+  rateLimiter?: RateLimiter;
+  // Serves the /query endpoints to anyone when there are no keys; they are refused otherwise
+  allowAnonymous?: boolean;
+}
+
+// API keys from the file at API_KEYS_PATH; /query is only open to anyone with ALLOW_ANONYMOUS_QUERIES=true
+export function appOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): AppOptions {
+  return {
+    ...(env.API_KEYS_PATH ? { apiKeys: new ApiKeyStore(env.API_KEYS_PATH) } : {}),
+    allowAnonymous: env.ALLOW_ANONYMOUS_QUERIES === 'true'
+  };
+}
+
+function refuseQueries(req: express.Request, res: express.Response) {
+  res.status(503).json({ error: 'Queries are disabled: set API_KEYS_PATH to require API keys, or ALLOW_ANONYMOUS_QUERIES=true' });
+}
+
+/**
+ * The Express app serving the API and chat UI over `queryService`, which it does not
+ * initialize or close.
+ */
+export function createApp(queryService: QueryService, options: AppOptions = {}): express.Express {
+  const app = express();
+
+  // Security middleware
+  app.use(helmet({
+    contentSecurityPolicy: {
+      directives: {
+        defaultSrc: ["'self'"],
+        styleSrc: ["'self'", "'unsafe-inline'", "https://fonts.googleapis.com"],
+        fontSrc: ["'self'", "https://fonts.gstatic.com"],
+        scriptSrc: ["'self'", "'unsafe-inline'"],
+        scriptSrcAttr: ["'unsafe-inline'"],
+        imgSrc: ["'self'", "data:", "https:"],
+      },
     },
-  },
-}));
+  }));
 
-// CORS middleware
-app.use(cors({
-  origin: process.env.NODE_ENV === 'production' ? false : true,
-  credentials: true,
-}));
+  // CORS middleware
+  app.use(cors({
+    origin: process.env.NODE_ENV === 'production' ? false : true,
+    credentials: true,
+  }));
 
-// Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+  // Body parsing middleware
+  app.use(express.json({ limit: '10mb' }));
+  app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Serve static files
-app.use(express.static(path.join(__dirname, '../public')));
+  // Serve static files
+  app.use(express.static(path.join(__dirname, '../public')));
 
-// Health check endpoint
-app.get('/health', (req, res) => {
-  res.json({ status: 'OK', timestamp: new Date().toISOString() });
-});
+  // Health check endpoint
+  app.get('/health', (req, res) => {
+    res.json({ status: 'OK', timestamp: new Date().toISOString(), schema: queryService.getSchemaStatus() });
+  });
 
-// Main query endpoint
-app.post('/query', async (req, res) => {
-  try {
-    const { question } = req.body;
+  // Re-introspect the database after a migration; ?force=true also re-indexes values of an unchanged schema
+  app.post('/admin/schema/reload', requireAdmin, async (req, res) => {
+    try {
+      res.json(await queryService.reloadSchema(req.query.force === 'true'));
+    } catch (error) {
+      console.error('Schema reload failed:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Schema reload failed' });
+    }
+  });
+
+  // Loads a file into the database: CSV as text/csv, or a GBFS station_information feed as
+  // JSON, with ?kind=trips, stations or weather. Large files are better loaded with `npm run ingest`
+  app.post('/admin/ingest', requireAdmin, express.text({ type: ['text/csv', 'text/plain'], limit: '10mb' }), async (req, res) => {
+    const kind = req.query.kind as IngestKind;
+    if (!INGEST_KINDS.includes(kind)) {
+      return res.status(400).json({ error: `kind must be one of ${INGEST_KINDS.join(', ')}` });
+    }
+
+    let records: AsyncIterable<Record<string, unknown>>;
+    if (typeof req.body === 'string' && req.body.length > 0) {
+      records = readCsv(req.body);
+    } else if (req.is('application/json')) {
+      records = readGbfsStations(req.body);
+    } else {
+      return res.status(400).json({ error: 'Send a CSV file as text/csv, or a GBFS feed as application/json' });
+    }
+
+    try {
+      const name = typeof req.query.name === 'string' ? req.query.name : `${kind} upload`;
+      res.json(await queryService.ingest([{ kind, name, records }]));
+    } catch (error) {
+      if (error instanceof IngestError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof QueryError && error.code === 'READ_ONLY_VIOLATION') {
+        return res.status(409).json({ error: 'The database is read-only; set DATABASE_WRITABLE=true to load files into it' });
+      }
+      console.error('Ingest failed:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Ingest failed' });
+    }
+  });
+
+  if (options.apiKeys) {
+    app.use('/query', requireApiKey(options.apiKeys, options.rateLimiter || new RateLimiter()));
+  } else if (!options.allowAnonymous) {
+    app.use('/query', refuseQueries);
+  }
+
+  // Main query endpoint
+  app.post('/query', async (req, res) => {
+    try {
+      const { question, sessionId } = req.body;
+
+      const invalid = validateQueryRequest(req.body);
+      if (invalid) {
+        return res.status(400).json({ sql: '', result: null, error: invalid });
+      }
+
+      // Paging may be given in the body or the query string
+      const limit = req.body.limit ?? req.query.limit;
+      const cursor = req.body.cursor ?? req.query.cursor;
+      if (limit !== undefined && !/^[1-9]\d{0,5}$/.test(String(limit))) {
+        return res.status(400).json({ sql: '', result: null, error: 'limit must be a positive integer' });
+      }
+      if (cursor !== undefined && (typeof cursor !== 'string' || cursor.length > 200)) {
+        return res.status(400).json({ sql: '', result: null, error: 'cursor must be the nextCursor of a previous response' });
+      }
+
+      console.log(`Processing query from ${requester(res)}: "${question}"`);
+      
+      // ?fresh=true skips the result cache
+      const response = await queryService.processQuery(question, sessionId, {
+        fresh: req.query.fresh === 'true',
+        limit: limit === undefined ? undefined : parseInt(String(limit), 10),
+        cursor
+      });
+      
+      // Log the response for debugging
+      console.log(`Generated SQL: ${response.sql}`);
+      console.log(`Result: ${JSON.stringify(response.result)}`);
+      
+      if (response.error) {
+        console.error(`Query error for ${requester(res)}: ${response.error}`);
+        return res.status(statusFor(response)).json(response);
+      }
 
-    if (!question || typeof question !== 'string') {
-      return res.status(400).json({
+      res.json(response);
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({
         sql: '',
         result: null,
-        error: 'Question is required and must be a string'
+        error: 'Internal server error'
       });
     }
+  });
+
+  // Every row of the result as a line of JSON, read from a server-side cursor as the client keeps up
+  app.post('/query/stream', async (req, res) => {
+    const invalid = validateQueryRequest(req.body);
+    if (invalid) {
+      return res.status(400).json({ sql: '', result: null, error: invalid });
+    }
+
+    let streaming = false;
+    const response = await queryService.streamQuery(req.body.question, req.body.sessionId, async rows => {
+      if (!streaming) {
+        res.status(200).type('application/x-ndjson');
+        streaming = true;
+      }
+      for (const row of rows) {
+        // Throwing ends the fetch loop and rolls the transaction back when the client goes away
+        if (res.destroyed) throw new Error('Client disconnected');
+        if (!res.write(JSON.stringify(row) + '\n')) {
+          await drained(res);
+        }
+      }
+    });
+
+    if (!streaming) {
+      // Errors and clarifications are plain JSON, as from /query
+      if (response.error) return res.status(statusFor(response)).json(response);
+      if (response.clarification) return res.json(response);
+      return res.status(200).type('application/x-ndjson').end();
+    }
+
+    if (response.error && !res.destroyed) {
+      res.write(JSON.stringify({ error: response.error, errorCode: response.errorCode }) + '\n');
+    }
+    res.end();
+  });
+
+  // How a question is read and would run, without running it. Takes a question, or the
+  // queryId of an answer to explain it as it ran.
+  app.post('/query/explain', async (req, res) => {
+    const { queryId } = req.body;
+
+    if (queryId !== undefined) {
+      const query = typeof queryId === 'string' ? queryService.getQuery(queryId) : null;
+      if (!query) {
+        return res.status(404).json({ error: 'Unknown or expired queryId, ask the question again' });
+      }
+      const explanation = await queryService.explainAnswer(query);
+      return res.status(explanation.error ? statusFor(explanation) : 200).json(explanation);
+    }
+
+    const invalid = validateQueryRequest(req.body);
+    if (invalid) {
+      return res.status(400).json({ sql: '', result: null, error: invalid });
+    }
+
+    const explanation = await queryService.explainQuery(req.body.question, req.body.sessionId);
+    res.status(explanation.error ? statusFor(explanation) : 200).json(explanation);
+  });
+
+  // The rows of an answer as a file, by the queryId of its /query response; csv by default
+  app.get('/query/:id/export', async (req, res) => {
+    const format = req.query.format ?? 'csv';
+    if (!isExportFormat(format)) {
+      return res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const query = queryService.getQuery(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Unknown or expired queryId, ask the question again' });
+    }
+
+    let writer: ExportWriter | null = null;
+    const write = async (chunk: string) => {
+      if (chunk && !res.write(chunk)) {
+        await drained(res);
+      }
+    };
+    const start = async (columns: QueryResponse['columns']) => {
+      writer = new ExportWriter(format, columns || []);
+      res.status(200).attachment(exportFilename(query.question, format)).type(contentType(format));
+      await write(writer.start());
+      return writer;
+    };
+
+    const response = await queryService.exportQuery(query, async (rows, columns) => {
+      if (res.destroyed) throw new Error('Client disconnected');
+      await write((writer || await start(columns)).write(rows));
+    });
 
-    console.log(`Processing query: "${question}"`);
-    
-    const response = await queryService.processQuery(question);
-    
-    // Log the response for debugging
-    console.log(`Generated SQL: ${response.sql}`);
-    console.log(`Result: ${JSON.stringify(response.result)}`);
-    
+    if (!writer) {
+      if (response.error) return res.status(statusFor(response)).json({ error: response.error, errorCode: response.errorCode });
+      // No rows: the header alone, or an empty document
+      await start(response.columns);
+    }
     if (response.error) {
-      console.error(`Query error: ${response.error}`);
-      return res.status(500).json(response);
+      // The file is incomplete, so the download has to fail rather than end
+      return res.destroy();
     }
+    await write(writer!.end());
+    res.end();
+  });
 
-    res.json(response);
-  } catch (error) {
-    console.error('Server error:', error);
+  // Serve the chat UI
+  app.get('/', (req, res) => {
+    res.sendFile(path.join(__dirname, '../src/premium_ui.html'));
+  });
+
+  // 404 handler
+  app.use((req, res) => {
+    res.status(404).json({ error: 'Not found' });
+  });
+
+  // Error handler
+  app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    // Bodies too large or malformed, as the body parsers report them
+    if (err.expose && err.status >= 400 && err.status < 500) {
+      return res.status(err.status).json({ sql: '', result: null, error: err.message });
+    }
+    console.error('Unhandled error:', err);
     res.status(500).json({
       sql: '',
       result: null,
       error: 'Internal server error'
     });
-  }
-});
-
-// Serve the chat UI
-app.get('/', (req, res) => {
-	res.sendFile(path.join(__dirname, '../src/premium_ui.html'));
-});
-
-// 404 handler
-app.use((req, res) => {
-  res.status(404).json({ error: 'Not found' });
-});
-
-// Error handler
-app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Unhandled error:', err);
-  res.status(500).json({
-    sql: '',
-    result: null,
-    error: 'Internal server error'
   });
-});
-
-// Graceful shutdown
-process.on('SIGTERM', async () => {
-  console.log('SIGTERM received, shutting down gracefully');
-  await queryService.close();
-  process.exit(0);
-});
-
-process.on('SIGINT', async () => {
-  console.log('SIGINT received, shutting down gracefully');
-  await queryService.close();
-  process.exit(0);
-});
-
-async function startServer() {
+
+  return app;
+}
+
+// Postgres as configured by DATABASE_URL or the PG* variables, or a SQLite or DuckDB file
+// when DATABASE_URL names one; see createDataSource
+const queryService = new QueryService(createDataSource(databaseConfigFromEnv()));
+const app = createApp(queryService, appOptionsFromEnv());
+
+// Loads the schema, then serves `app` on PORT until SIGTERM or SIGINT closes `queryService`
+export async function startServer(
+  queryService: QueryService,
+  app: express.Express = createApp(queryService, appOptionsFromEnv())
+): Promise<void> {
+  const shutdown = (signal: string) => async () => {
+    console.log(`${signal} received, shutting down gracefully`);
+    await queryService.close();
+    process.exit(0);
+  };
+  process.on('SIGTERM', shutdown('SIGTERM'));
+  process.on('SIGINT', shutdown('SIGINT'));
+
   try {
     // Initialize the query service
     await queryService.initialize();
-    
+
+    const reloadInterval = parseInt(process.env.SCHEMA_RELOAD_INTERVAL_MS || '', 10);
+    if (reloadInterval > 0) {
+      queryService.startSchemaRefresh(reloadInterval);
+    }
+
     app.listen(port, () => {
       console.log(`🚀 Server running on port ${port}`);
       console.log(`📊 Query endpoint: http://localhost:${port}/query`);
       console.log(`🌐 Web interface: http://localhost:${port}`);
+      if (!process.env.API_KEYS_PATH) {
+        console.warn(process.env.ALLOW_ANONYMOUS_QUERIES === 'true'
+          ? 'ALLOW_ANONYMOUS_QUERIES is set, so /query is open to anyone'
+          : '/query answers 503 until API_KEYS_PATH names the file of API keys (see `npm run keys`), or ALLOW_ANONYMOUS_QUERIES=true opens it to anyone');
+      }
     });
   } catch (error) {
     console.error('Failed to start server:', error);
@@ -130,6 +443,9 @@ async function startServer() {
   }
 }
 
-startServer();
+// Importing the module only builds the app; queries initialize the service on first use
+if (require.main === module) {
+  startServer(queryService, app);
+}
 
-export default app;
\ No newline at end of file
+export default app;
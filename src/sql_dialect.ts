@@ -0,0 +1,165 @@
+import { DatePart } from './query_plan';
+
+export type DialectName = 'postgres' | 'duckdb' | 'sqlite';
+
+export type CastType = 'timestamp' | 'numeric';
+
+/**
+ * The SQL that differs between databases, for SQLRenderer to build queries from. Arguments
+ * are rendered SQL expressions.
+ */
+export interface SqlDialect {
+  readonly name: DialectName;
+  // Database name as a model would know it, e.g. "PostgreSQL"
+  readonly title: string;
+  // Functions the dialect's expressions call, allowed by SQLValidator on top of its defaults
+  readonly functions: string[];
+  // Placeholder for the `index`th parameter, counting from 1; parameters are numbered in
+  // the order they appear in the query
+  placeholder(index: number): string;
+  cast(expression: string, type: CastType): string;
+  // Minutes elapsed between two timestamps
+  durationMinutes(start: string, end: string): string;
+  // Calendar date of a timestamp
+  date(expression: string): string;
+  // A part of a timestamp as a number; dow counts from 0 = Sunday
+  datePart(part: DatePart, expression: string): string;
+  round(expression: string, precision: number): string;
+  // `aggregate` (e.g. "COUNT") of `argument` over the rows matching `condition` only
+  filteredAggregate(aggregate: string, argument: string, condition: string): string;
+  caseInsensitiveLike(expression: string, pattern: string): string;
+  limit(count: number): string;
+}
+
+export class PostgresDialect implements SqlDialect {
+  readonly name: DialectName = 'postgres';
+  readonly title: string = 'PostgreSQL';
+  readonly functions: string[] = [];
+
+  placeholder(index: number): string {
+    return `$${index}`;
+  }
+
+  cast(expression: string, type: CastType): string {
+    return `${expression}::${type}`;
+  }
+
+  durationMinutes(start: string, end: string): string {
+    return `EXTRACT(EPOCH FROM (${end} - ${start}))/60`;
+  }
+
+  date(expression: string): string {
+    return `DATE(${expression})`;
+  }
+
+  datePart(part: DatePart, expression: string): string {
+    return `EXTRACT(${part.toUpperCase()} FROM ${expression})`;
+  }
+
+  round(expression: string, precision: number): string {
+    // ROUND(x, n) is only defined for numeric in Postgres
+    return precision === 0 ? `ROUND(${expression})` : `ROUND(${this.cast(expression, 'numeric')}, ${precision})`;
+  }
+
+  filteredAggregate(aggregate: string, argument: string, condition: string): string {
+    return `${aggregate}(${argument}) FILTER (WHERE ${condition})`;
+  }
+
+  caseInsensitiveLike(expression: string, pattern: string): string {
+    return `${expression} ILIKE ${pattern}`;
+  }
+
+  limit(count: number): string {
+    return `LIMIT ${count}`;
+  }
+}
+
+// DuckDB reads Postgres syntax; NUMERIC is only DECIMAL(18,3) there, so doubles are rounded as they are
+export class DuckDBDialect extends PostgresDialect {
+  readonly name: DialectName = 'duckdb';
+  readonly title: string = 'DuckDB';
+  readonly functions: string[] = ['date_diff'];
+
+  durationMinutes(start: string, end: string): string {
+    return `date_diff('second', ${start}, ${end}) / 60.0`;
+  }
+
+  round(expression: string, precision: number): string {
+    return precision === 0 ? `ROUND(${expression})` : `ROUND(${expression}, ${precision})`;
+  }
+}
+
+// strftime formats of each date part
+const SQLITE_DATE_PARTS: { [part in DatePart]: string } = {
+  hour: '%H',
+  dow: '%w',
+  day: '%d',
+  week: '%W',
+  month: '%m',
+  year: '%Y'
+};
+
+/**
+ * SQLite has no date types: timestamps are text such as "2025-06-01 08:10:00", which
+ * compares in order and is read by its date functions.
+ */
+export class SQLiteDialect implements SqlDialect {
+  readonly name: DialectName = 'sqlite';
+  readonly title: string = 'SQLite';
+  readonly functions: string[] = ['julianday', 'strftime', 'datetime'];
+
+  // better-sqlite3 binds an array of values to anonymous placeholders only, in order
+  placeholder(index: number): string {
+    return '?';
+  }
+
+  cast(expression: string, type: CastType): string {
+    return type === 'timestamp' ? `datetime(${expression})` : `CAST(${expression} AS REAL)`;
+  }
+
+  durationMinutes(start: string, end: string): string {
+    return `(julianday(${end}) - julianday(${start})) * 1440`;
+  }
+
+  date(expression: string): string {
+    return `DATE(${expression})`;
+  }
+
+  // %W counts weeks from the first Monday of the year, not ISO weeks as Postgres does
+  datePart(part: DatePart, expression: string): string {
+    return `CAST(strftime('${SQLITE_DATE_PARTS[part]}', ${expression}) AS INTEGER)`;
+  }
+
+  round(expression: string, precision: number): string {
+    return precision === 0 ? `ROUND(${expression})` : `ROUND(${expression}, ${precision})`;
+  }
+
+  // FILTER needs SQLite 3.30 or later
+  filteredAggregate(aggregate: string, argument: string, condition: string): string {
+    return `${aggregate}(${argument}) FILTER (WHERE ${condition})`;
+  }
+
+  // LIKE ignores the case of ASCII letters in SQLite
+  caseInsensitiveLike(expression: string, pattern: string): string {
+    return `${expression} LIKE ${pattern}`;
+  }
+
+  limit(count: number): string {
+    return `LIMIT ${count}`;
+  }
+}
+
+export const POSTGRES: SqlDialect = new PostgresDialect();
+
+export function findDialect(name: string): SqlDialect | null {
+  switch (name) {
+    case 'postgres':
+      return POSTGRES;
+    case 'duckdb':
+      return new DuckDBDialect();
+    case 'sqlite':
+      return new SQLiteDialect();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,138 @@
+import { SQLGenerator } from './sql_generator';
+import { SQLValidator } from './sql_validator';
+import { Clarifier, Clarification, CLARIFY_BELOW } from './clarifier';
+import { QueryPlan } from './query_plan';
+
+export interface SqlCandidate {
+  // Name of the strategy that produced the SQL
+  strategy: string;
+  // Empty when the question has to be clarified first
+  sql: string;
+  params: any[];
+  // Only the rule-based strategy plans; SQL from a model has no plan
+  plan?: QueryPlan;
+  clarification?: Clarification;
+  // 0 to 1, used to choose between candidates
+  confidence: number;
+}
+
+export interface SqlGenerationStrategy {
+  readonly name: string;
+  // `previous` is the last plan of the conversation, for strategies that resolve follow-ups
+  generate(question: string, previous: QueryPlan | null): Promise<SqlCandidate>;
+}
+
+/**
+ * The keyword and semantic-model driven planner. Questions too vague to plan come back
+ * without SQL and with a clarification.
+ */
+export class RuleBasedStrategy implements SqlGenerationStrategy {
+  readonly name = 'rules';
+  private sqlGenerator: SQLGenerator;
+  private clarifier: Clarifier;
+
+  constructor(sqlGenerator: SQLGenerator, clarifier: Clarifier) {
+    this.sqlGenerator = sqlGenerator;
+    this.clarifier = clarifier;
+  }
+
+  async generate(question: string, previous: QueryPlan | null): Promise<SqlCandidate> {
+    const plan = this.sqlGenerator.buildQueryPlan(question, previous);
+    const clarification = this.clarifier.clarify(question, plan, previous) || undefined;
+    const confidence = clarification ? clarification.confidence : 1;
+
+    // Ask rather than guess when the question is too vague to plan
+    if (confidence < CLARIFY_BELOW) {
+      return { strategy: this.name, sql: '', params: [], plan, clarification, confidence };
+    }
+
+    const { sql, params } = this.sqlGenerator.renderPlan(plan);
+    return { strategy: this.name, sql, params, plan, clarification, confidence };
+  }
+}
+
+/**
+ * Tries each strategy in order and returns the first candidate with SQL that passes
+ * validation. When none does, the first candidate is returned (e.g. a clarification),
+ * or the first error is thrown.
+ */
+export class FallbackStrategy implements SqlGenerationStrategy {
+  readonly name = 'fallback';
+  private strategies: SqlGenerationStrategy[];
+  private validator: SQLValidator;
+
+  constructor(strategies: SqlGenerationStrategy[], validator: SQLValidator) {
+    this.strategies = strategies;
+    this.validator = validator;
+  }
+
+  async generate(question: string, previous: QueryPlan | null): Promise<SqlCandidate> {
+    const candidates: SqlCandidate[] = [];
+    const errors: unknown[] = [];
+
+    for (const strategy of this.strategies) {
+      try {
+        const candidate = await strategy.generate(question, previous);
+        if (isUsable(candidate, this.validator)) return candidate;
+        candidates.push(candidate);
+      } catch (error) {
+        console.error(`SQL generation with ${strategy.name} failed:`, error);
+        errors.push(error);
+      }
+    }
+
+    return firstOrThrow(candidates, errors);
+  }
+}
+
+/**
+ * Runs every strategy at once and returns the valid candidate with the highest
+ * confidence; ties go to the strategy listed first.
+ */
+export class EnsembleStrategy implements SqlGenerationStrategy {
+  readonly name = 'ensemble';
+  private strategies: SqlGenerationStrategy[];
+  private validator: SQLValidator;
+
+  constructor(strategies: SqlGenerationStrategy[], validator: SQLValidator) {
+    this.strategies = strategies;
+    this.validator = validator;
+  }
+
+  async generate(question: string, previous: QueryPlan | null): Promise<SqlCandidate> {
+    const settled = await Promise.allSettled(this.strategies.map(strategy => strategy.generate(question, previous)));
+    const candidates: SqlCandidate[] = [];
+    const errors: unknown[] = [];
+
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        candidates.push(outcome.value);
+      } else {
+        console.error(`SQL generation with ${this.strategies[index].name} failed:`, outcome.reason);
+        errors.push(outcome.reason);
+      }
+    });
+
+    // Array.prototype.sort is stable, so equal confidence keeps the listed order
+    const usable = candidates
+      .filter(candidate => isUsable(candidate, this.validator))
+      .sort((a, b) => b.confidence - a.confidence);
+
+    return usable[0] || firstOrThrow(candidates, errors);
+  }
+}
+
+function isUsable(candidate: SqlCandidate, validator: SQLValidator): boolean {
+  if (!candidate.sql) return false;
+  try {
+    validator.validate(candidate.sql);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function firstOrThrow(candidates: SqlCandidate[], errors: unknown[]): SqlCandidate {
+  if (candidates.length > 0) return candidates[0];
+  throw errors[0] || new Error('No SQL generation strategy configured');
+}
@@ -0,0 +1,133 @@
+import { nextSecond } from './date_parser';
+import { Expression, Filter, Measure, QueryPlan } from './query_plan';
+import { CastType, POSTGRES, SqlDialect } from './sql_dialect';
+
+export interface SQLQuery {
+  sql: string;
+  params: any[];
+}
+
+export class SQLRenderer {
+  private dialect: SqlDialect;
+
+  constructor(dialect: SqlDialect = POSTGRES) {
+    this.dialect = dialect;
+  }
+
+  render(plan: QueryPlan): SQLQuery {
+    const params: any[] = [];
+    const addParam = (value: any): string => {
+      params.push(value);
+      return this.dialect.placeholder(params.length);
+    };
+
+    const clauses: string[] = [
+      this.renderSelect(plan, addParam),
+      this.renderFrom(plan)
+    ];
+
+    if (plan.filters.length > 0) {
+      clauses.push(`WHERE ${plan.filters.map(filter => this.renderFilter(filter, addParam)).join(' AND ')}`);
+    }
+
+    // Dimensions are only grouped when they sit next to an aggregate
+    if (plan.measures.length > 0 && plan.dimensions.length > 0) {
+      clauses.push(`GROUP BY ${plan.dimensions.map(d => this.renderExpression(d.expression)).join(', ')}`);
+    }
+
+    if (plan.orderBy.length > 0) {
+      clauses.push(`ORDER BY ${plan.orderBy.map(o => `${o.alias} ${o.direction}`).join(', ')}`);
+    }
+
+    if (plan.limit !== null) {
+      clauses.push(this.dialect.limit(Math.max(0, Math.floor(plan.limit))));
+    }
+
+    return { sql: clauses.join(' '), params };
+  }
+
+  renderExpression(expression: Expression): string {
+    switch (expression.kind) {
+      case 'column':
+        return `${expression.table}.${expression.column}`;
+      case 'duration_minutes':
+        return this.dialect.durationMinutes(this.renderExpression(expression.start), this.renderExpression(expression.end));
+      case 'date':
+        return this.dialect.date(this.renderExpression(expression.of));
+      case 'date_part':
+        return this.dialect.datePart(expression.part, this.renderExpression(expression.of));
+      case 'raw':
+        return expression.sql;
+    }
+  }
+
+  private renderSelect(plan: QueryPlan, addParam: (value: any) => string): string {
+    const items = [
+      ...plan.dimensions.map(d => `${this.renderExpression(d.expression)} as ${d.alias}`),
+      ...plan.measures.map(m => `${this.renderMeasure(m, addParam)} as ${m.alias}`)
+    ];
+
+    return items.length > 0 ? `SELECT ${items.join(', ')}` : 'SELECT *';
+  }
+
+  private renderMeasure(measure: Measure, addParam: (value: any) => string): string {
+    const argument = measure.expression ? this.renderExpression(measure.expression) : '*';
+    // Pre-aggregated formulas are parenthesised so ROUND and casts apply to the whole formula
+    let aggregate = measure.aggregate ? `${measure.aggregate.toUpperCase()}(${argument})` : `(${argument})`;
+
+    if (measure.filters && measure.filters.length > 0) {
+      if (!measure.aggregate) {
+        throw new Error(`Measure ${measure.alias} already aggregates and cannot be filtered`);
+      }
+      const condition = measure.filters.map(filter => this.renderFilter(filter, addParam)).join(' AND ');
+      aggregate = this.dialect.filteredAggregate(measure.aggregate.toUpperCase(), argument, condition);
+    }
+    if (measure.scale !== undefined) {
+      aggregate = `(${aggregate} * ${measure.scale})`;
+    }
+
+    return measure.precision === undefined ? aggregate : this.dialect.round(aggregate, measure.precision);
+  }
+
+  private renderFrom(plan: QueryPlan): string {
+    const joins = plan.joins.map(join => {
+      const conditions = join.on.map(c => `${this.renderExpression(c.left)} = ${this.renderExpression(c.right)}`);
+      return `${join.type} JOIN ${this.renderTable(join.table, join.alias)} ON ${conditions.join(' AND ')}`;
+    });
+
+    return [`FROM ${this.renderTable(plan.from.table, plan.from.alias)}`, ...joins].join(' ');
+  }
+
+  private renderTable(table: string, alias: string): string {
+    return table === alias ? table : `${table} AS ${alias}`;
+  }
+
+  private renderFilter(filter: Filter, addParam: (value: any) => string): string {
+    if (filter.kind === 'any') {
+      if (filter.filters.length === 1) {
+        return this.renderFilter(filter.filters[0], addParam);
+      }
+      return `(${filter.filters.map(f => `(${this.renderFilter(f, addParam)})`).join(' OR ')})`;
+    }
+    if (filter.kind === 'all') {
+      return `(${filter.filters.map(f => this.renderFilter(f, addParam)).join(' AND ')})`;
+    }
+
+    const expression = this.renderExpression(filter.expression);
+    if (filter.kind === 'range') {
+      const from = `${expression} >= ${this.renderValue(filter.from, addParam, filter.cast)}`;
+      // Timestamps are stored finer than the second `to` names, so the range ends before the next one
+      const end = filter.cast === 'timestamp' && typeof filter.to === 'string' ? nextSecond(filter.to) : null;
+      return end
+        ? `${from} AND ${expression} < ${this.renderValue(end, addParam, filter.cast)}`
+        : `${from} AND ${expression} <= ${this.renderValue(filter.to, addParam, filter.cast)}`;
+    }
+    const value = this.renderValue(filter.value, addParam, filter.cast);
+    return filter.operator === 'ILIKE' ? this.dialect.caseInsensitiveLike(expression, value) : `${expression} ${filter.operator} ${value}`;
+  }
+
+  private renderValue(value: any, addParam: (value: any) => string, cast?: CastType): string {
+    const placeholder = addParam(value);
+    return cast ? this.dialect.cast(placeholder, cast) : placeholder;
+  }
+}
@@ -0,0 +1,231 @@
+import { TableInfo } from './database_service';
+import { QueryError } from './query_error';
+
+export interface SQLValidatorOptions {
+  // Functions allowed besides the defaults, e.g. ones used by metrics in the semantic model
+  functions?: string[];
+}
+
+type TokenType = 'word' | 'quoted' | 'string' | 'number' | 'param' | 'symbol';
+
+interface Token {
+  type: TokenType;
+  // Lower case for words, unquoted for quoted identifiers
+  value: string;
+  // As written
+  text: string;
+}
+
+const KEYWORDS = new Set([
+  'select', 'from', 'where', 'and', 'or', 'not', 'as', 'on', 'join', 'left', 'right', 'inner', 'outer', 'full',
+  'group', 'by', 'order', 'asc', 'desc', 'limit', 'offset', 'having', 'distinct', 'case', 'when', 'then', 'else',
+  'end', 'is', 'null', 'true', 'false', 'in', 'between', 'like', 'ilike', 'filter', 'nulls', 'first', 'last',
+  'interval', 'epoch', 'hour', 'dow', 'day', 'week', 'month', 'year', 'quarter', 'minute', 'second'
+]);
+
+const FORBIDDEN = new Set([
+  'insert', 'update', 'delete', 'merge', 'upsert', 'drop', 'create', 'alter', 'truncate', 'grant', 'revoke',
+  'copy', 'into', 'call', 'do', 'execute', 'lock', 'vacuum', 'analyze', 'set', 'reset', 'comment', 'reindex',
+  'cluster', 'listen', 'notify', 'prepare', 'deallocate', 'discard', 'refresh', 'begin', 'commit', 'rollback',
+  'savepoint', 'for', 'returning', 'with', 'union', 'intersect', 'except'
+]);
+
+const FUNCTIONS = [
+  'count', 'sum', 'avg', 'min', 'max', 'round', 'extract', 'date', 'date_trunc', 'nullif', 'coalesce',
+  'greatest', 'least', 'abs', 'lower', 'upper', 'length', 'trim', 'concat', 'cast'
+];
+
+const TYPES = new Set(['timestamp', 'date', 'numeric', 'text', 'integer', 'int', 'bigint', 'float', 'real', 'boolean']);
+
+const STATEMENTS = ['select'];
+
+/**
+ * Checks generated SQL before it runs: a single SELECT over allow-listed tables,
+ * columns and functions. Throws a QueryError naming the first violation.
+ */
+export class SQLValidator {
+  private tables: Map<string, Set<string>> = new Map();
+  private functions: Set<string>;
+
+  constructor(schema: TableInfo[] = [], options: SQLValidatorOptions = {}) {
+    this.functions = new Set([...FUNCTIONS, ...(options.functions || []).map(f => f.toLowerCase())]);
+    this.setSchema(schema);
+  }
+
+  setSchema(schema: TableInfo[]): void {
+    this.tables = new Map(schema.map(table => [
+      table.table_name.toLowerCase(),
+      new Set(table.columns.map(c => c.column_name.toLowerCase()))
+    ]));
+  }
+
+  allowedFunctions(): string[] {
+    return [...this.functions];
+  }
+
+  // Same query, same text: whitespace collapsed, keywords and names lower-cased, literals kept as written
+  normalize(sql: string): string {
+    return this.tokenize(sql)
+      .filter((token, i, tokens) => !(token.value === ';' && i === tokens.length - 1))
+      .map(token => token.type === 'word' ? token.value : token.text)
+      .join(' ');
+  }
+
+  validate(sql: string): void {
+    const tokens = this.tokenize(sql);
+
+    // A single trailing semicolon is harmless, anything after one is a second statement
+    const semicolon = tokens.findIndex(t => t.type === 'symbol' && t.value === ';');
+    if (semicolon !== -1 && semicolon !== tokens.length - 1) {
+      throw new QueryError('MULTIPLE_STATEMENTS', 'Only a single statement is allowed');
+    }
+    const statement = semicolon === -1 ? tokens : tokens.slice(0, -1);
+
+    const first = statement[0];
+    if (!first || first.type !== 'word' || !STATEMENTS.includes(first.value)) {
+      throw new QueryError('NOT_SELECT', `Only SELECT statements are allowed, got ${first ? first.value.toUpperCase() : 'nothing'}`);
+    }
+
+    const forbidden = statement.find(t => t.type === 'word' && FORBIDDEN.has(t.value));
+    if (forbidden) {
+      throw new QueryError('FORBIDDEN_KEYWORD', `${forbidden.value.toUpperCase()} is not allowed`);
+    }
+
+    const aliases = this.collectTables(statement);
+    const selectAliases = new Set(
+      statement
+        .filter((t, i) => i > 0 && statement[i - 1].type === 'word' && statement[i - 1].value === 'as' && !this.isTableAlias(statement, i))
+        .map(t => t.value)
+    );
+    const columns = new Set([...aliases.values()].flatMap(table => [...this.tables.get(table)!]));
+
+    for (let i = 0; i < statement.length; i++) {
+      const token = statement[i];
+      if (token.type !== 'word' && token.type !== 'quoted') continue;
+
+      const previous = statement[i - 1];
+      const next = statement[i + 1];
+
+      // table.column
+      if (next && next.value === '.' && next.type === 'symbol') {
+        const table = aliases.get(token.value);
+        if (!table) throw new QueryError('TABLE_NOT_ALLOWED', `Table ${token.value} is not allowed`);
+
+        const target = statement[i + 2];
+        if (!target || (target.type !== 'symbol' || target.value !== '*') && !this.tables.get(table)!.has(target.value)) {
+          throw new QueryError('COLUMN_NOT_ALLOWED', `Column ${token.value}.${target ? target.value : ''} is not allowed`);
+        }
+        i += 2;
+        continue;
+      }
+
+      if (previous && previous.type === 'symbol' && previous.value === '::') {
+        if (!TYPES.has(token.value)) throw new QueryError('FUNCTION_NOT_ALLOWED', `Cast to ${token.value} is not allowed`);
+        continue;
+      }
+
+      if (token.type === 'word' && KEYWORDS.has(token.value)) continue;
+
+      if (next && next.type === 'symbol' && next.value === '(') {
+        if (!this.functions.has(token.value)) throw new QueryError('FUNCTION_NOT_ALLOWED', `Function ${token.value} is not allowed`);
+        continue;
+      }
+
+      if (aliases.has(token.value) || selectAliases.has(token.value) || columns.has(token.value)) continue;
+      throw new QueryError('COLUMN_NOT_ALLOWED', `Identifier ${token.value} is not allowed`);
+    }
+  }
+
+  // Tables after FROM and JOIN by alias; the table name is its own alias
+  private collectTables(tokens: Token[]): Map<string, string> {
+    const aliases = new Map<string, string>();
+
+    tokens.forEach((token, i) => {
+      if (token.type !== 'word' || (token.value !== 'from' && token.value !== 'join')) return;
+      // EXTRACT(EPOCH FROM x) reads a value, not a table
+      if (token.value === 'from' && this.insideCall(tokens, i)) return;
+
+      const name = tokens[i + 1];
+      if (!name || (name.type !== 'word' && name.type !== 'quoted') || !this.tables.has(name.value)) {
+        throw new QueryError('TABLE_NOT_ALLOWED', `Table ${name ? name.value : ''} is not allowed`);
+      }
+
+      let alias = name.value;
+      const after = tokens[i + 2];
+      if (after && after.value === 'as' && tokens[i + 3]) {
+        alias = tokens[i + 3].value;
+      }
+      aliases.set(name.value, name.value);
+      aliases.set(alias, name.value);
+    });
+
+    return aliases;
+  }
+
+  private isTableAlias(tokens: Token[], index: number): boolean {
+    const keyword = tokens[index - 3];
+    return !!keyword && keyword.type === 'word' && (keyword.value === 'from' || keyword.value === 'join');
+  }
+
+  private insideCall(tokens: Token[], index: number): boolean {
+    let depth = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      if (tokens[i].value === ')' && tokens[i].type === 'symbol') depth++;
+      if (tokens[i].value === '(' && tokens[i].type === 'symbol') {
+        if (depth === 0) return true;
+        depth--;
+      }
+    }
+    return false;
+  }
+
+  private tokenize(sql: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < sql.length) {
+      const rest = sql.slice(i);
+      const char = sql[i];
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (rest.startsWith('--') || rest.startsWith('/*')) {
+        throw new QueryError('INVALID_SQL', 'Comments are not allowed');
+      } else if (char === "'") {
+        const match = rest.match(/^'(?:[^']|'')*'/);
+        if (!match) throw new QueryError('INVALID_SQL', 'Unterminated string literal');
+        tokens.push({ type: 'string', value: match[0], text: match[0] });
+        i += match[0].length;
+      } else if (char === '"') {
+        const match = rest.match(/^"((?:[^"]|"")+)"/);
+        if (!match) throw new QueryError('INVALID_SQL', 'Unterminated quoted identifier');
+        tokens.push({ type: 'quoted', value: match[1].replace(/""/g, '"').toLowerCase(), text: match[0] });
+        i += match[0].length;
+      } else if (char === '$') {
+        const match = rest.match(/^\$\d+/);
+        if (!match) throw new QueryError('INVALID_SQL', 'Dollar quoting is not allowed');
+        tokens.push({ type: 'param', value: match[0], text: match[0] });
+        i += match[0].length;
+      } else if (char === '?') {
+        // SQLite's placeholders
+        tokens.push({ type: 'param', value: char, text: char });
+        i++;
+      } else if (/[a-z_]/i.test(char)) {
+        const match = rest.match(/^[a-z_][a-z0-9_]*/i)!;
+        tokens.push({ type: 'word', value: match[0].toLowerCase(), text: match[0] });
+        i += match[0].length;
+      } else if (/\d/.test(char) || (char === '.' && /\d/.test(sql[i + 1] || ''))) {
+        const match = rest.match(/^\d*\.?\d+(?:e[+-]?\d+)?/i)!;
+        tokens.push({ type: 'number', value: match[0], text: match[0] });
+        i += match[0].length;
+      } else {
+        const match = rest.match(/^(?:::|<>|<=|>=|!=|\|\||[(),.;*=<>+\-/%])/);
+        if (!match) throw new QueryError('INVALID_SQL', `Unexpected character ${char}`);
+        tokens.push({ type: 'symbol', value: match[0], text: match[0] });
+        i += match[0].length;
+      }
+    }
+
+    return tokens;
+  }
+}
@@ -0,0 +1,229 @@
+import Database from 'better-sqlite3';
+import { ColumnInfo, DataSource, Execute, ExecutionLimits, ForeignKeyInfo, ReadOnlyResult, TableInfo } from './database_service';
+import { QueryError } from './query_error';
+import { SqlDialect, SQLiteDialect } from './sql_dialect';
+
+interface PragmaColumn {
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  // Position in the primary key counting from 1, 0 for other columns
+  pk: number;
+}
+
+interface PragmaForeignKey {
+  id: number;
+  table: string;
+  from: string;
+  to: string | null;
+}
+
+const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+
+/**
+ * A DataSource over a SQLite file, opened read-only so generated SQL cannot change it. When
+ * `writable`, a second connection is opened for executeQuery, creating the file if missing.
+ *
+ * better-sqlite3 runs statements synchronously and cannot interrupt them, so the statement
+ * timeout is checked between rows as they are read: a query that takes long before its first
+ * row, such as a large aggregate, is only stopped once it returns one.
+ */
+export class SQLiteDataSource implements DataSource {
+  readonly dialect: SqlDialect = new SQLiteDialect();
+  private path: string;
+  private db: Database.Database;
+  private writer: Database.Database | null;
+
+  constructor(path: string, options: { writable?: boolean } = {}) {
+    this.path = path;
+    this.writer = options.writable ? new Database(path) : null;
+    this.db = new Database(path, { readonly: true, fileMustExist: true });
+  }
+
+  async getSchema(): Promise<TableInfo[]> {
+    const tables = this.db
+      .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name`)
+      .all() as { name: string }[];
+
+    return tables.map(({ name: table_name }) => {
+      const pragmaColumns = this.db.prepare(`PRAGMA table_info(${quote(table_name)})`).all() as PragmaColumn[];
+      const columns: ColumnInfo[] = pragmaColumns.map(c => ({
+        table_name,
+        column_name: c.name,
+        data_type: c.type.toLowerCase(),
+        is_nullable: c.notnull || c.pk ? 'NO' : 'YES',
+        column_default: c.dflt_value
+      }));
+
+      return {
+        table_name,
+        columns,
+        primary_key: pragmaColumns.filter(c => c.pk > 0).sort((a, b) => a.pk - b.pk).map(c => c.name),
+        foreign_keys: this.getForeignKeys(table_name),
+        unique_constraints: this.getUniqueConstraints(table_name)
+      };
+    });
+  }
+
+  private getForeignKeys(table: string): ForeignKeyInfo[] {
+    const rows = this.db.prepare(`PRAGMA foreign_key_list(${quote(table)})`).all() as PragmaForeignKey[];
+
+    // One row per column, grouped by constraint; SQLite does not keep constraint names
+    const byId = new Map<number, PragmaForeignKey[]>();
+    rows.forEach(row => byId.set(row.id, [...(byId.get(row.id) || []), row]));
+
+    return Array.from(byId.values()).map(keyRows => {
+      const columns = keyRows.map(row => row.from);
+      // A key without target columns references the primary key
+      const foreignColumns = keyRows.some(row => row.to === null)
+        ? this.primaryKey(keyRows[0].table)
+        : keyRows.map(row => row.to!);
+      return {
+        constraint_name: `${table}_${columns.join('_')}_fkey`,
+        columns,
+        foreign_table: keyRows[0].table,
+        foreign_columns: foreignColumns
+      };
+    });
+  }
+
+  private getUniqueConstraints(table: string): string[][] {
+    const indexes = this.db.prepare(`PRAGMA index_list(${quote(table)})`).all() as { name: string; unique: number; origin: string }[];
+    // "u" for UNIQUE constraints; primary keys ("pk") and CREATE INDEX ("c") are left out
+    return indexes
+      .filter(index => index.unique && index.origin === 'u')
+      .map(index => (this.db.prepare(`PRAGMA index_info(${quote(index.name)})`).all() as { name: string }[]).map(c => c.name));
+  }
+
+  private primaryKey(table: string): string[] {
+    const columns = this.db.prepare(`PRAGMA table_info(${quote(table)})`).all() as PragmaColumn[];
+    return columns.filter(c => c.pk > 0).sort((a, b) => a.pk - b.pk).map(c => c.name);
+  }
+
+  async getDistinctValues(table: string, column: string, limit: number): Promise<string[]> {
+    const rows = this.db
+      .prepare(`SELECT DISTINCT CAST(${quote(column)} AS TEXT) AS value FROM ${quote(table)} WHERE ${quote(column)} IS NOT NULL LIMIT ?`)
+      .all(limit) as { value: string }[];
+    return rows.map(row => row.value);
+  }
+
+  async executeQuery(sql: string, params: any[] = []): Promise<any[]> {
+    if (!this.writer) {
+      throw new QueryError('READ_ONLY_VIOLATION', 'The database was opened read-only');
+    }
+    const statement = this.writer.prepare(sql);
+    if (statement.reader) {
+      return statement.all(...params);
+    }
+    statement.run(...params);
+    return [];
+  }
+
+  async transaction<T>(run: (execute: Execute) => Promise<T>): Promise<T> {
+    await this.executeQuery('BEGIN');
+    try {
+      const result = await run((sql, params) => this.executeQuery(sql, params));
+      await this.executeQuery('COMMIT');
+      return result;
+    } catch (error) {
+      if (this.writer!.inTransaction) this.writer!.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async executeReadOnly(sql: string, params: any[], limits: ExecutionLimits): Promise<ReadOnlyResult> {
+    const rows: any[] = [];
+    let totalCount = 0;
+    this.read(sql, params, limits, row => {
+      totalCount++;
+      if (rows.length < limits.maxRows) rows.push(row);
+    });
+    return { rows, truncated: totalCount > rows.length, totalCount };
+  }
+
+  async streamReadOnly(
+    sql: string,
+    params: any[],
+    limits: ExecutionLimits,
+    batchSize: number,
+    onRows: (rows: any[]) => Promise<void> | void
+  ): Promise<number> {
+    this.prepare(sql);
+    // A connection of its own, as one with an iterator open can run nothing else meanwhile
+    const connection = new Database(this.path, { readonly: true, fileMustExist: true });
+    try {
+      let batch: any[] = [];
+      let count = 0;
+      // Each batch has the timeout to be read in, as each FETCH from a Postgres cursor does,
+      // so time spent in onRows does not count
+      let deadline = Date.now() + limits.statementTimeoutMs;
+      for (const row of connection.prepare(sql).iterate(...params)) {
+        if (Date.now() > deadline) throw this.timeoutError(limits);
+        batch.push(row);
+        count++;
+        if (batch.length === batchSize) {
+          await onRows(batch);
+          batch = [];
+          deadline = Date.now() + limits.statementTimeoutMs;
+        }
+      }
+      if (batch.length > 0) await onRows(batch);
+      return count;
+    } catch (error) {
+      throw this.toQueryError(error);
+    } finally {
+      connection.close();
+    }
+  }
+
+  // The steps SQLite would take, from EXPLAIN QUERY PLAN; nothing runs
+  async explain(sql: string, params: any[], limits: ExecutionLimits): Promise<string[]> {
+    this.prepare(sql);
+    const rows = this.db.prepare(`EXPLAIN QUERY PLAN ${sql.replace(/;\s*$/, '')}`).all(...params) as { detail: string }[];
+    return rows.map(row => row.detail);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+    this.writer?.close();
+  }
+
+  private read(sql: string, params: any[], limits: ExecutionLimits, onRow: (row: any) => void): void {
+    const statement = this.prepare(sql);
+    const deadline = Date.now() + limits.statementTimeoutMs;
+    try {
+      for (const row of statement.iterate(...params)) {
+        if (Date.now() > deadline) throw this.timeoutError(limits);
+        onRow(row);
+      }
+    } catch (error) {
+      throw this.toQueryError(error);
+    }
+  }
+
+  private prepare(sql: string): Database.Statement {
+    let statement: Database.Statement;
+    try {
+      statement = this.db.prepare(sql);
+    } catch (error) {
+      throw this.toQueryError(error);
+    }
+    // The connection is read-only too; this refuses writes before they reach it
+    if (!statement.readonly || !statement.reader) {
+      throw new QueryError('READ_ONLY_VIOLATION', 'Query tried to modify data');
+    }
+    return statement;
+  }
+
+  private timeoutError(limits: ExecutionLimits): QueryError {
+    return new QueryError('STATEMENT_TIMEOUT', `Query took longer than ${limits.statementTimeoutMs}ms`);
+  }
+
+  private toQueryError(error: unknown): unknown {
+    if ((error as { code?: string }).code === 'SQLITE_READONLY') {
+      return new QueryError('READ_ONLY_VIOLATION', 'Query tried to modify data');
+    }
+    return error;
+  }
+}
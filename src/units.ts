@@ -0,0 +1,44 @@
+export type Quantity = 'distance' | 'duration';
+
+export interface Unit {
+  name: string;
+  quantity: Quantity;
+  // Size in the base unit of the quantity: kilometres or minutes
+  inBase: number;
+  // Decimals a value converted to this unit is rounded to
+  precision: number;
+  // Words asking for values in this unit. Singular "hour" is left out as it usually
+  // means a breakdown ("by hour")
+  synonyms: string[];
+}
+
+export const UNITS: Unit[] = [
+  { name: 'km', quantity: 'distance', inBase: 1, precision: 1, synonyms: ['km', 'kms', 'kilometres', 'kilometers', 'kilometre', 'kilometer'] },
+  { name: 'miles', quantity: 'distance', inBase: 1.609344, precision: 1, synonyms: ['miles', 'mile', 'mi'] },
+  { name: 'minutes', quantity: 'duration', inBase: 1, precision: 0, synonyms: ['minutes', 'mins'] },
+  { name: 'hours', quantity: 'duration', inBase: 60, precision: 1, synonyms: ['hours', 'hrs'] }
+];
+
+export function findUnit(name: string): Unit | null {
+  return UNITS.find(unit => unit.name === name) || null;
+}
+
+/**
+ * The unit the question asks for a value of `unit` to be given in, when it is another
+ * unit of the same quantity: "how many miles" for a metric in km.
+ */
+export function requestedUnit(question: string, unit: string): Unit | null {
+  const from = findUnit(unit);
+  if (!from) return null;
+
+  const words = question.toLowerCase();
+  const asked = UNITS.filter(candidate => candidate.quantity === from.quantity && candidate.synonyms
+    .some(synonym => new RegExp(`\\b${synonym}\\b`).test(words)));
+  // Naming the metric's own unit, or several, asks for no conversion
+  return asked.length === 1 && asked[0] !== from ? asked[0] : null;
+}
+
+// Multiplier taking a value in `from` to `to`
+export function conversionFactor(from: Unit, to: Unit): number {
+  return from.inBase / to.inBase;
+}
@@ -0,0 +1,149 @@
+import * as stringSimilarity from 'string-similarity';
+import { TableInfo } from './database_service';
+
+export interface IndexedValue {
+  table: string;
+  column: string;
+  value: string;
+}
+
+export interface ValueMatch extends IndexedValue {
+  // Words of the question that matched, normalized
+  phrase: string;
+  score: number;
+  // Word offsets of the phrase in the normalized question, end exclusive
+  start: number;
+  end: number;
+}
+
+export interface ValueIndexOptions {
+  minSimilarity?: number;
+  // Columns with more distinct values are free text or identifiers and are not indexed
+  maxValuesPerColumn?: number;
+}
+
+export type DistinctValuesFetcher = (table: string, column: string, limit: number) => Promise<string[]>;
+
+const TEXT_TYPES = ['text', 'character varying', 'varchar', 'character', 'citext'];
+
+// Abbreviations expanded on both sides, so "Lamar Blvd" matches "Lamar Boulevard"
+const ABBREVIATIONS: { [short: string]: string } = {
+  st: 'street',
+  ave: 'avenue',
+  av: 'avenue',
+  blvd: 'boulevard',
+  rd: 'road',
+  dr: 'drive',
+  ln: 'lane',
+  pkwy: 'parkway',
+  hwy: 'highway',
+  sq: 'square',
+  pl: 'place',
+  ct: 'court',
+  n: 'north',
+  s: 'south',
+  e: 'east',
+  w: 'west'
+};
+
+interface Entry extends IndexedValue {
+  normalized: string;
+  words: number;
+}
+
+/**
+ * Distinct values of categorical text columns (station names, rider types, ...), so a
+ * question naming one can be filtered on the exact value of the right column.
+ */
+export class ValueIndex {
+  private entries: Entry[];
+  private minSimilarity: number;
+
+  constructor(values: IndexedValue[] = [], options: ValueIndexOptions = {}) {
+    this.minSimilarity = options.minSimilarity ?? 0.8;
+    this.entries = values
+      .map(value => ({ ...value, normalized: normalizeValue(value.value) }))
+      .filter(entry => entry.normalized.length >= 3)
+      .map(entry => ({ ...entry, words: entry.normalized.split(' ').length }));
+  }
+
+  /**
+   * Indexes every text column that is not a key and has at most `maxValuesPerColumn`
+   * distinct values.
+   */
+  static async build(schema: TableInfo[], fetchValues: DistinctValuesFetcher, options: ValueIndexOptions = {}): Promise<ValueIndex> {
+    const maxValues = options.maxValuesPerColumn ?? 1000;
+    const values: IndexedValue[] = [];
+
+    for (const table of schema) {
+      const keys = new Set([
+        ...(table.primary_key || []),
+        ...(table.foreign_keys || []).flatMap(fk => fk.columns)
+      ]);
+
+      for (const column of table.columns) {
+        if (keys.has(column.column_name) || !TEXT_TYPES.includes(column.data_type.toLowerCase())) continue;
+
+        const distinct = await fetchValues(table.table_name, column.column_name, maxValues + 1);
+        if (distinct.length > maxValues) continue;
+
+        for (const value of distinct) {
+          values.push({ table: table.table_name, column: column.column_name, value });
+        }
+      }
+    }
+
+    return new ValueIndex(values, options);
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Values named in the question, best first and never overlapping. Phrases of about
+   * the value's length are compared with Dice similarity after expanding abbreviations.
+   */
+  match(question: string): ValueMatch[] {
+    const words = normalizeValue(question).split(' ').filter(word => word.length > 0);
+    const candidates: ValueMatch[] = [];
+
+    for (const entry of this.entries) {
+      let best: ValueMatch | null = null;
+
+      for (let length = Math.max(1, entry.words - 1); length <= entry.words + 1; length++) {
+        for (let start = 0; start + length <= words.length; start++) {
+          const phrase = words.slice(start, start + length).join(' ');
+          if (phrase.length < 3) continue;
+
+          const score = phrase === entry.normalized ? 1 : stringSimilarity.compareTwoStrings(phrase, entry.normalized);
+          if (score >= this.minSimilarity && (!best || score > best.score)) {
+            best = { table: entry.table, column: entry.column, value: entry.value, phrase, score, start, end: start + length };
+          }
+        }
+      }
+
+      if (best) candidates.push(best);
+    }
+
+    candidates.sort((a, b) => b.score - a.score || (b.end - b.start) - (a.end - a.start));
+
+    const matches: ValueMatch[] = [];
+    for (const candidate of candidates) {
+      if (!matches.some(m => candidate.start < m.end && m.start < candidate.end)) {
+        matches.push(candidate);
+      }
+    }
+    return matches.sort((a, b) => a.start - b.start);
+  }
+}
+
+export function normalizeValue(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0)
+    .map(word => ABBREVIATIONS[word] || word)
+    .join(' ');
+}
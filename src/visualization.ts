@@ -0,0 +1,69 @@
+import { QueryPlan } from './query_plan';
+import { ColumnMetadata } from './query_service';
+
+export type ChartType = 'bar' | 'line' | 'pie' | 'stat';
+
+export interface Visualization {
+  type: ChartType;
+  // Dimension along the x axis, or labelling the slices of a pie; absent for a single stat
+  x?: string;
+  // Measures plotted; a pie has exactly one
+  y: string[];
+  // Second dimension, drawn as one bar or line per value
+  series?: string;
+  // Unit of each measure that has one, e.g. { distance_km: 'km' }
+  units: { [measure: string]: string };
+}
+
+// Beyond these, a chart is unreadable and the table is better
+const MAX_BARS = 50;
+const MAX_POINTS = 1000;
+const MAX_SLICES = 6;
+
+/**
+ * Picks a chart for a tabular result from its columns, or null when it is better read as a
+ * table. With a plan, time breakdowns become lines and small shares of a total become pies;
+ * SQL without a plan is charted from the column types alone.
+ */
+export function recommendVisualization(columns: ColumnMetadata[], rowCount: number, plan?: QueryPlan): Visualization | null {
+  const dimensions = columns.filter(c => c.role === 'dimension');
+  const measures = columns.filter(c => c.role === 'measure');
+  if (rowCount === 0 || measures.length === 0 || dimensions.length > 2) return null;
+
+  const units = Object.fromEntries(measures.filter(m => m.unit).map(m => [m.name, m.unit!]));
+  const y = measures.map(m => m.name);
+
+  if (dimensions.length === 0) {
+    return rowCount === 1 ? { type: 'stat', y, units } : null;
+  }
+  // A single group, such as the busiest station, reads better as the answer alone
+  if (rowCount === 1) return null;
+
+  const [x, series] = dimensions;
+  const chart = { x: x.name, y, ...(series ? { series: series.name } : {}), units };
+
+  // Comparisons and rankings are bars whatever the dimension
+  if (plan && (plan.comparison || plan.limit !== null)) {
+    return rowCount <= MAX_BARS ? { type: 'bar', ...chart } : null;
+  }
+
+  if (isTemporal(x, plan)) {
+    return rowCount <= MAX_POINTS ? { type: 'line', ...chart } : null;
+  }
+
+  // Slices only add up to a whole for counts and sums
+  const additive = plan?.measures.length === 1 && ['count', 'sum'].includes(plan.measures[0].aggregate || '');
+  if (additive && !series && rowCount <= MAX_SLICES) {
+    return { type: 'pie', ...chart };
+  }
+
+  return rowCount <= MAX_BARS ? { type: 'bar', ...chart } : null;
+}
+
+function isTemporal(column: ColumnMetadata, plan?: QueryPlan): boolean {
+  const dimension = plan?.dimensions.find(d => d.alias === column.name);
+  if (dimension) {
+    return dimension.expression.kind === 'date' || dimension.expression.kind === 'date_part';
+  }
+  return column.type === 'date' || column.type === 'timestamp' || column.type === 'number';
+}
@@ -1,5 +1,11 @@
 import request from 'supertest';
-import app from '../src/server';
+import { createApp } from '../src/server';
+import { createDataSource, databaseConfigFromEnv } from '../src/database_service';
+import { QueryService } from '../src/query_service';
+
+// The database configured by the environment, served without API keys
+const queryService = new QueryService(createDataSource(databaseConfigFromEnv()));
+const app = createApp(queryService, { allowAnonymous: true });
 
 describe('Public Acceptance Tests', () => {
   // Test cases from the assignment
@@ -28,6 +34,10 @@ describe('Public Acceptance Tests', () => {
     await new Promise(resolve => setTimeout(resolve, 2000));
   });
 
+  afterAll(async () => {
+    await queryService.close();
+  });
+
   test.each(testCases)('$name', async ({ question, expectedAnswer, tolerance }) => {
     const response = await request(app)
       .post('/query')
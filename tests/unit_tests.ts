@@ -1,6 +1,69 @@
 import { SemanticMapper, QueryIntent } from '../src/semantic_mapper';
 import { SQLGenerator } from '../src/sql_generator';
 import { QueryService } from '../src/query_service';
+import { DateParser, toSqlTimestamp } from '../src/date_parser';
+import { QueryPlan, column } from '../src/query_plan';
+import { SQLRenderer } from '../src/sql_renderer';
+import { QueryPlanner } from '../src/query_planner';
+import { loadSemanticModel, validateSemanticModel } from '../src/semantic_model';
+import { JoinGraph } from '../src/join_graph';
+import { DataSource, TableInfo } from '../src/database_service';
+import { ConversationStore } from '../src/conversation_store';
+import { Clarifier, CLARIFY_BELOW } from '../src/clarifier';
+import { ValueIndex } from '../src/value_index';
+import { SQLValidator } from '../src/sql_validator';
+import { RuleBasedStrategy, FallbackStrategy, EnsembleStrategy } from '../src/sql_generation_strategy';
+import { LLMStrategy, buildSchemaPrompt } from '../src/llm_strategy';
+import { ResultCache, MemoryCacheBackend, RedisCacheBackend, RedisCommands } from '../src/result_cache';
+import { encodeCommand, parseReply, RedisClient } from '../src/redis_client';
+import { diffSchemas, describeDiff, isEmptyDiff, schemaVersion } from '../src/schema_diff';
+import { paginate, queryKey, encodeCursor } from '../src/pagination';
+import { ExportWriter, ExportFormat, exportFilename } from '../src/result_export';
+import { ResultStore } from '../src/result_store';
+import { recommendVisualization } from '../src/visualization';
+import { AnswerGenerator } from '../src/answer_generator';
+import { requestedUnit } from '../src/units';
+import { createFixtureEvaluator, Evaluator, formatReport, GoldenCase, loadGoldenCases } from '../src/evaluation';
+import { FIXTURE_SCHEMA, FixtureDatabase, fixtureSql } from '../src/evaluation_fixture';
+import { MemoryDataSource } from '../src/memory_data_source';
+import { createDataSource, databaseConfigFromEnv, DatabaseService, poolConfig } from '../src/database_service';
+import { findDialect } from '../src/sql_dialect';
+import { IngestKind, readCsv, readGbfsStations } from '../src/ingestion';
+import { ApiKeyStore, DEFAULT_DAILY_QUOTA, hashApiKey, RateLimiter } from '../src/api_keys';
+import { appOptionsFromEnv, createApp } from '../src/server';
+import { Pool } from 'pg';
+import request from 'supertest';
+import { createServer, Server } from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo, createServer as createTcpServer, Socket } from 'net';
+
+// The SQLite and DuckDB drivers are optional dependencies: where one did not install, the
+// tests needing it are skipped rather than the whole file failing to load
+function loadOptional<T>(load: () => T): T | null {
+  try {
+    return load();
+  } catch {
+    return null;
+  }
+}
+
+const sqlite = loadOptional(() => {
+  const Database = require('better-sqlite3') as typeof import('better-sqlite3');
+  // The native binding loads with the first database
+  new Database(':memory:').close();
+  return { Database, ...(require('../src/sqlite_data_source') as typeof import('../src/sqlite_data_source')) };
+});
+const duckdb = loadOptional(() => ({
+  ...(require('@duckdb/node-api') as typeof import('@duckdb/node-api')),
+  ...(require('../src/duckdb_data_source') as typeof import('../src/duckdb_data_source'))
+}));
+const { Database, SQLiteDataSource } = sqlite ?? ({} as NonNullable<typeof sqlite>);
+const { DuckDBInstance, DuckDBDataSource } = duckdb ?? ({} as NonNullable<typeof duckdb>);
+const describeSqlite = sqlite ? describe : describe.skip;
+const testSqlite = sqlite ? test : test.skip;
+const testDuckdb = duckdb ? test : test.skip;
 
 describe('SemanticMapper', () => {
   let semanticMapper: SemanticMapper;
@@ -185,30 +248,2186 @@ describe('SQLGenerator', () => {
   });
 });
 
-describe('QueryService Integration', () => {
-  let queryService: QueryService;
+describe('DateParser', () => {
+  let dateParser: DateParser;
+
+  // Wednesday, 16 July 2025
+  const referenceDate = new Date(2025, 6, 16, 10, 30, 0);
+
+  const format = (question: string) =>
+    (dateParser.parse(question) || []).map(range => [toSqlTimestamp(range.start), toSqlTimestamp(range.end)]);
 
   beforeEach(() => {
-    queryService = new QueryService();
+    dateParser = new DateParser({ referenceDate });
   });
 
-  afterEach(async () => {
-    await queryService.close();
+  test('returns null when no date is mentioned', () => {
+    expect(dateParser.parse('How many trips were made by women?')).toBeNull();
+    expect(dateParser.parse('Which station may be the busiest?')).toBeNull();
   });
 
-  describe('Error Handling', () => {
-    test('handles empty questions gracefully', async () => {
-      const response = await queryService.processQuery('');
-      expect(response.error).toBeTruthy();
-      expect(response.result).toBeNull();
+  test('parses any month and year', () => {
+    expect(format('How many trips in June 2025?')).toEqual([['2025-06-01 00:00:00', '2025-06-30 23:59:59']]);
+    expect(format('Trips in February 2024')).toEqual([['2024-02-01 00:00:00', '2024-02-29 23:59:59']]);
+    expect(format('Trips in sept 2023')).toEqual([['2023-09-01 00:00:00', '2023-09-30 23:59:59']]);
+  });
+
+  test('infers the most recent year for a bare month', () => {
+    expect(format('Trips in June')).toEqual([['2025-06-01 00:00:00', '2025-06-30 23:59:59']]);
+    expect(format('Trips in December')).toEqual([['2024-12-01 00:00:00', '2024-12-31 23:59:59']]);
+  });
+
+  test('parses weeks of a month', () => {
+    expect(format('most departures during the first week of June 2025')).toEqual([['2025-06-01 00:00:00', '2025-06-07 23:59:59']]);
+    expect(format('trips in the last week of February 2025')).toEqual([['2025-02-22 00:00:00', '2025-02-28 23:59:59']]);
+  });
+
+  test('parses relative days and rolling periods', () => {
+    expect(format('trips yesterday')).toEqual([['2025-07-15 00:00:00', '2025-07-15 23:59:59']]);
+    expect(format('trips today')).toEqual([['2025-07-16 00:00:00', '2025-07-16 23:59:59']]);
+    expect(format('trips in the last 7 days')).toEqual([['2025-07-10 00:00:00', '2025-07-16 23:59:59']]);
+    expect(format('trips over the past 2 weeks')).toEqual([['2025-07-03 00:00:00', '2025-07-16 23:59:59']]);
+  });
+
+  test('parses calendar periods relative to the reference date', () => {
+    expect(format('trips last month')).toEqual([['2025-06-01 00:00:00', '2025-06-30 23:59:59']]);
+    expect(format('trips this month')).toEqual([['2025-07-01 00:00:00', '2025-07-31 23:59:59']]);
+    expect(format('trips last week')).toEqual([['2025-07-07 00:00:00', '2025-07-13 23:59:59']]);
+    expect(format('trips last year')).toEqual([['2024-01-01 00:00:00', '2024-12-31 23:59:59']]);
+    expect(format('trips last quarter')).toEqual([['2025-04-01 00:00:00', '2025-06-30 23:59:59']]);
+  });
+
+  test('parses quarters', () => {
+    expect(format('trips in Q2 2025')).toEqual([['2025-04-01 00:00:00', '2025-06-30 23:59:59']]);
+    expect(format('trips in the first quarter of 2024')).toEqual([['2024-01-01 00:00:00', '2024-03-31 23:59:59']]);
+    expect(format('trips in q4')).toEqual([['2024-10-01 00:00:00', '2024-12-31 23:59:59']]);
+  });
+
+  test('parses explicit ranges and ISO dates', () => {
+    expect(format('trips between March 3 and March 10')).toEqual([['2025-03-03 00:00:00', '2025-03-10 23:59:59']]);
+    expect(format('trips between March 3 and 10, 2024')).toEqual([['2024-03-03 00:00:00', '2024-03-10 23:59:59']]);
+    expect(format('trips from 2025-06-01 to 2025-06-07')).toEqual([['2025-06-01 00:00:00', '2025-06-07 23:59:59']]);
+    expect(format('trips on 2025-06-15')).toEqual([['2025-06-15 00:00:00', '2025-06-15 23:59:59']]);
+    expect(format('trips on June 3rd')).toEqual([['2025-06-03 00:00:00', '2025-06-03 23:59:59']]);
+  });
+
+  test('splits periods by weekday qualifiers', () => {
+    expect(format('trips on weekends in June 2025')).toEqual([
+      ['2025-06-01 00:00:00', '2025-06-01 23:59:59'],
+      ['2025-06-07 00:00:00', '2025-06-08 23:59:59'],
+      ['2025-06-14 00:00:00', '2025-06-15 23:59:59'],
+      ['2025-06-21 00:00:00', '2025-06-22 23:59:59'],
+      ['2025-06-28 00:00:00', '2025-06-29 23:59:59']
+    ]);
+    expect(format('trips on Mondays in June 2025')).toHaveLength(5);
+  });
+
+  test('resolves a bare weekday to its most recent occurrence', () => {
+    expect(format('trips on Monday')).toEqual([['2025-07-14 00:00:00', '2025-07-14 23:59:59']]);
+    expect(format('trips last weekend')).toEqual([['2025-07-12 00:00:00', '2025-07-13 23:59:59']]);
+  });
+
+  test('feeds multiple ranges into the started_at filter', () => {
+    const semanticMapper = new SemanticMapper();
+    semanticMapper.setSchema([]);
+    const sqlGenerator = new SQLGenerator(semanticMapper, dateParser);
+    const { sql, params } = sqlGenerator.generateSQL('How many trips on weekends in July 2025?');
+    expect(sql).toContain('trips.started_at >= $1::timestamp');
+    expect(sql).toContain(' OR ');
+    expect(params[0]).toBe('2025-07-05 00:00:00');
+  });
+
+  test('reads a date-only REFERENCE_DATE as a local date', async () => {
+    // jest_config.js sets TZ west of UTC, where UTC midnight is still the day before
+    const previous = process.env.REFERENCE_DATE;
+    process.env.REFERENCE_DATE = '2025-07-01';
+    const queryService = new QueryService(new FixtureDatabase());
+    try {
+      const explanation = await queryService.explainQuery('How many trips were there yesterday?');
+      expect(explanation.interpretation!.dateRanges).toEqual([{ from: '2025-06-30 00:00:00', to: '2025-06-30 23:59:59' }]);
+    } finally {
+      if (previous === undefined) delete process.env.REFERENCE_DATE;
+      else process.env.REFERENCE_DATE = previous;
+      await queryService.close();
+    }
+  });
+
+});
+
+describe('Query Plan', () => {
+  let semanticMapper: SemanticMapper;
+  let sqlGenerator: SQLGenerator;
+
+  beforeEach(() => {
+    semanticMapper = new SemanticMapper();
+    sqlGenerator = new SQLGenerator(semanticMapper);
+
+    const mockSchema = [
+      {
+        table_name: 'trips',
+        columns: [
+          { table_name: 'trips', column_name: 'started_at', data_type: 'timestamp', is_nullable: 'NO', column_default: null },
+          { table_name: 'trips', column_name: 'ended_at', data_type: 'timestamp', is_nullable: 'NO', column_default: null },
+          { table_name: 'trips', column_name: 'start_station_id', data_type: 'integer', is_nullable: 'YES', column_default: null },
+          { table_name: 'trips', column_name: 'trip_distance_km', data_type: 'numeric', is_nullable: 'YES', column_default: null },
+          { table_name: 'trips', column_name: 'rider_gender', data_type: 'text', is_nullable: 'YES', column_default: null },
+        ]
+      },
+      {
+        table_name: 'stations',
+        columns: [
+          { table_name: 'stations', column_name: 'station_id', data_type: 'integer', is_nullable: 'NO', column_default: null },
+          { table_name: 'stations', column_name: 'station_name', data_type: 'text', is_nullable: 'NO', column_default: null },
+        ]
+      }
+    ];
+
+    semanticMapper.setSchema(mockSchema);
+  });
+
+  test('builds measures, filters and joins for an aggregate question', () => {
+    const plan = sqlGenerator.buildQueryPlan('How many kilometres were ridden by women on rainy days in June 2025?');
+    expect(plan.measures).toEqual([
+      { alias: 'distance_km', aggregate: 'sum', expression: column('trips', 'trip_distance_km'), precision: 1, unit: 'km' }
+    ]);
+    expect(plan.filters.map(f => f.field)).toEqual(['date', 'rider_gender', 'weather']);
+    expect(plan.from.table).toBe('trips');
+    expect(plan.joins.map(j => j.table)).toEqual(['daily_weather']);
+  });
+
+  test('ranks stations with a single consistent join', () => {
+    const plan = sqlGenerator.buildQueryPlan('Which docking point saw the most departures during the first week of June 2025?');
+    expect(plan.dimensions).toEqual([{ alias: 'station', expression: column('start_stations', 'station_name') }]);
+    expect(plan.orderBy).toEqual([{ alias: 'trip_count', direction: 'DESC' }]);
+    expect(plan.limit).toBe(1);
+
+    const { sql } = sqlGenerator.renderPlan(plan);
+    expect(sql).toContain('LEFT JOIN stations AS start_stations ON trips.start_station_id = start_stations.station_id');
+    expect(sql).toContain('GROUP BY start_stations.station_name ORDER BY trip_count DESC LIMIT 1');
+  });
+});
+
+describe('Breakdowns', () => {
+  let semanticMapper: SemanticMapper;
+  let sqlGenerator: SQLGenerator;
+
+  beforeEach(() => {
+    semanticMapper = new SemanticMapper();
+    sqlGenerator = new SQLGenerator(semanticMapper);
+    semanticMapper.setSchema([
+      {
+        table_name: 'trips',
+        columns: [
+          { table_name: 'trips', column_name: 'started_at', data_type: 'timestamp', is_nullable: 'NO', column_default: null },
+          { table_name: 'trips', column_name: 'ended_at', data_type: 'timestamp', is_nullable: 'NO', column_default: null },
+          { table_name: 'trips', column_name: 'rider_gender', data_type: 'text', is_nullable: 'YES', column_default: null },
+        ]
+      }
+    ]);
+  });
+
+  test('detects breakdowns and rankings', () => {
+    expect(semanticMapper.findBreakdowns('Trips by gender and weather')).toEqual(['gender', 'weather']);
+    expect(semanticMapper.findBreakdowns('Average ride time per day')).toEqual(['day']);
+    expect(semanticMapper.findBreakdowns('How many trips were there?')).toEqual([]);
+    expect(semanticMapper.detectRanking('Top 5 stations by trips')).toEqual({ limit: 5, direction: 'DESC' });
+    expect(semanticMapper.detectRanking('How many trips were there?')).toBeNull();
+  });
+
+  test('groups by every requested dimension', () => {
+    const { sql } = sqlGenerator.generateSQL('How many trips by gender and weather?');
+    expect(sql).toContain('SELECT trips.rider_gender as gender');
+    expect(sql).toContain('COUNT(*) as trip_count');
+    expect(sql).toMatch(/GROUP BY trips\.rider_gender, CASE .* ORDER BY trip_count DESC$/);
+  });
+
+  test('orders time breakdowns chronologically', () => {
+    const { sql } = sqlGenerator.generateSQL('Number of trips by hour of day');
+    expect(sql).toContain('EXTRACT(HOUR FROM trips.started_at) as hour');
+    expect(sql).toContain('GROUP BY EXTRACT(HOUR FROM trips.started_at) ORDER BY hour ASC');
+  });
+
+  test('limits top-N rankings', () => {
+    const plan = sqlGenerator.buildQueryPlan('Top 5 stations by trips');
+    expect(plan.dimensions.map(d => d.alias)).toEqual(['station']);
+    expect(plan.orderBy).toEqual([{ alias: 'trip_count', direction: 'DESC' }]);
+    expect(sqlGenerator.renderPlan(plan).sql).toMatch(/LIMIT 5$/);
+  });
+});
+
+describe('Comparisons', () => {
+  let semanticMapper: SemanticMapper;
+  let sqlGenerator: SQLGenerator;
+
+  beforeEach(() => {
+    semanticMapper = new SemanticMapper();
+    sqlGenerator = new SQLGenerator(semanticMapper, new DateParser({ referenceDate: new Date(2025, 6, 16) }));
+    semanticMapper.setSchema([]);
+  });
+
+  test('splits the question into two cohorts', () => {
+    expect(semanticMapper.splitComparison('How did June compare to May?')).toEqual(['how did june', 'may']);
+    expect(semanticMapper.splitComparison('Rainy vs. dry days average duration')).toEqual(['rainy', 'dry days average duration']);
+    expect(semanticMapper.splitComparison('Compare women and men distance')).toEqual(['women', 'men distance']);
+    expect(semanticMapper.splitComparison('How many trips in June?')).toBeNull();
+    expect(semanticMapper.detectIntent('Women versus men distance')).toBe(QueryIntent.COMPARE);
+  });
+
+  test('filters one aggregate per cohort', () => {
+    const plan = sqlGenerator.buildQueryPlan('Rainy vs dry days average duration');
+    expect(plan.comparison).toEqual({
+      metric: 'ride_duration_minutes',
+      cohorts: [{ label: 'rainy', alias: 'ride_duration_minutes_1' }, { label: 'dry', alias: 'ride_duration_minutes_2' }]
     });
 
-    test('handles invalid questions gracefully', async () => {
-      const response = await queryService.processQuery('abcdefghijklmnopqrstuvwxyz');
-      // Should not crash, should return some response
-      expect(response).toHaveProperty('sql');
-      expect(response).toHaveProperty('result');
-      expect(response).toHaveProperty('error');
+    const { sql, params } = sqlGenerator.renderPlan(plan);
+    expect(sql).toContain('ROUND(AVG(EXTRACT(EPOCH FROM (trips.ended_at - trips.started_at))/60) FILTER (WHERE daily_weather.precipitation_mm > $1)) as ride_duration_minutes_1');
+    expect(sql).toContain('FILTER (WHERE daily_weather.precipitation_mm = $2)) as ride_duration_minutes_2');
+    expect(sql).toContain('WHERE ((daily_weather.precipitation_mm > $3) OR (daily_weather.precipitation_mm = $4))');
+    expect(params).toEqual([0, 0, 0, 0]);
+  });
+
+  test('compares periods and keeps shared filters', () => {
+    const plan = sqlGenerator.buildQueryPlan('Compare women trips in June and July 2025');
+    expect(plan.comparison!.cohorts.map(c => c.label)).toEqual(['2025-06-01 to 2025-06-30', '2025-07-01 to 2025-07-31']);
+    expect(plan.filters.map(f => f.field)).toEqual(['rider_gender', 'cohort']);
+
+    const { sql } = sqlGenerator.renderPlan(plan);
+    expect(sql).toContain('COUNT(*) FILTER (WHERE trips.started_at >= $1::timestamp AND trips.started_at < $2::timestamp) as trip_count_1');
+  });
+
+  test('rejects comparisons without two cohorts', async () => {
+    expect(() => sqlGenerator.buildQueryPlan('Trips at Congress Avenue vs everything')).toThrow('Could not tell which two groups to compare');
+
+    // A question the planner cannot answer is the client's to fix, not a server error
+    const queryService = new QueryService(new FixtureDatabase());
+    try {
+      const response = await request(createApp(queryService, { allowAnonymous: true }))
+        .post('/query')
+        .send({ question: 'Trips at Congress Avenue vs everything' })
+        .expect(422);
+      expect(response.body).toMatchObject({ error: 'Could not tell which two groups to compare', errorCode: 'UNSUPPORTED_QUESTION' });
+    } finally {
+      await queryService.close();
+    }
+  });
+
+  test('answers each cohort on the in-memory database', async () => {
+    // pg-mem ignores FILTER, so both cohorts would get the total
+    const queryService = new QueryService(new FixtureDatabase());
+    try {
+      const response = await queryService.processQuery('Compare average ride time for men and women in June 2025');
+      expect(response.sql).toContain('ROUND(AVG(CASE WHEN trips.rider_gender = $1 THEN EXTRACT(EPOCH FROM (trips.ended_at - trips.started_at))/60 END)) as ride_duration_minutes_1');
+      expect(response.result).toEqual([
+        { cohort: 'men', ride_duration_minutes: 24 },
+        { cohort: 'women', ride_duration_minutes: 22 }
+      ]);
+
+      const trips = await queryService.processQuery('Compare trips in June 2025 vs May 2025');
+      expect(trips.sql).toContain('SUM(CASE WHEN trips.started_at >= $1::timestamp AND trips.started_at < $2::timestamp THEN 1 ELSE 0 END) as trip_count_1');
+      expect(trips.comparison).toMatchObject({ difference: 6 });
+    } finally {
+      await queryService.close();
+    }
+  });
+});
+
+describe('Follow-up Questions', () => {
+  let semanticMapper: SemanticMapper;
+  let sqlGenerator: SQLGenerator;
+
+  beforeEach(() => {
+    semanticMapper = new SemanticMapper();
+    sqlGenerator = new SQLGenerator(semanticMapper, new DateParser({ referenceDate: new Date(2026, 9, 19) }));
+    semanticMapper.setSchema([]);
+  });
+
+  const ask = (...questions: string[]): QueryPlan =>
+    questions.reduce<QueryPlan | null>((previous, question) => sqlGenerator.buildQueryPlan(question, previous), null)!;
+
+  test('detects follow-ups', () => {
+    expect(semanticMapper.isFollowUp('And what about July?')).toBe(true);
+    expect(semanticMapper.isFollowUp('Now only for women')).toBe(true);
+    expect(semanticMapper.isFollowUp('by station')).toBe(true);
+    expect(semanticMapper.isFollowUp('In June, how many trips were there?')).toBe(false);
+    expect(semanticMapper.findRemovals('Without the weather filter, for all stations')).toEqual(['weather', 'stations']);
+  });
+
+  test('replaces a filter on the same field, keeping the year discussed', () => {
+    const plan = ask('Average ride time in June 2025', 'and what about July?');
+    expect(plan.measures.map(m => m.alias)).toEqual(['ride_duration_minutes']);
+
+    const { params } = sqlGenerator.renderPlan(plan);
+    expect(params).toEqual(['2025-07-01 00:00:00', '2025-08-01 00:00:00']);
+  });
+
+  test('adds and removes filters', () => {
+    const added = ask('Average ride time in June 2025', 'now only for women on rainy days');
+    expect(added.filters.map(f => f.field)).toEqual(['date', 'rider_gender', 'weather']);
+    expect(added.joins.map(j => j.table)).toEqual(['daily_weather']);
+
+    const removed = ask('Average ride time in June 2025', 'now only for women on rainy days', 'without the weather filter');
+    expect(removed.filters.map(f => f.field)).toEqual(['date', 'rider_gender']);
+    expect(removed.joins).toEqual([]);
+  });
+
+  test('changes the metric and grouping of the previous question', () => {
+    const plan = ask('Average ride time in June 2025', 'by station', 'what about distance?', 'top 3');
+    expect(plan.dimensions.map(d => d.alias)).toEqual(['station']);
+    expect(plan.measures.map(m => m.alias)).toEqual(['distance_km']);
+    expect(plan.filters.map(f => f.field)).toEqual(['date']);
+    expect(plan.limit).toBe(3);
+  });
+
+  test('starts over on a standalone question', () => {
+    const plan = ask('Average ride time for women in June 2025', 'How many trips on rainy days?');
+    expect(plan.measures.map(m => m.alias)).toEqual(['trip_count']);
+    expect(plan.filters.map(f => f.field)).toEqual(['weather']);
+  });
+
+  test('refines the previous question with a filter alone, but asks again about nothing', async () => {
+    expect(ask('Average ride time in June 2025', 'Women?').filters.map(f => f.field)).toEqual(['date', 'rider_gender']);
+    expect(ask('Average ride time in June 2025', 'show me stuff').measures).toEqual([]);
+
+    const queryService = new QueryService(new FixtureDatabase());
+    try {
+      const { sessionId } = await queryService.processQuery('Average ride time in June 2025');
+      const response = await queryService.processQuery('show me stuff', sessionId);
+      expect(response.sql).toBe('');
+      expect(response.clarification!.question).toBe('What would you like to know?');
+    } finally {
+      await queryService.close();
+    }
+  });
+});
+
+describe('ConversationStore', () => {
+  const plan = { limit: null } as QueryPlan;
+
+  test('returns the last plan of a conversation', () => {
+    const store = new ConversationStore();
+    const id = store.create();
+    expect(store.lastPlan(id)).toBeNull();
+
+    store.append(id, 'first', plan);
+    store.append(id, 'second', { ...plan, limit: 5 });
+    expect(store.lastPlan(id)!.limit).toBe(5);
+    expect(store.get(id)!.turns.map(t => t.question)).toEqual(['first', 'second']);
+  });
+
+  test('forgets idle conversations and evicts the least recently used', () => {
+    let now = 0;
+    const store = new ConversationStore({ ttlMs: 1000, maxConversations: 2, now: () => now });
+
+    store.append('a', 'q', plan);
+    store.append('b', 'q', plan);
+    store.append('a', 'q', plan);
+    store.append('c', 'q', plan);
+    expect(store.get('b')).toBeNull();
+    expect(store.get('a')).not.toBeNull();
+
+    now = 1001;
+    expect(store.get('c')).toBeNull();
+    expect(store.size()).toBe(1);
+  });
+});
+
+describe('Clarifier', () => {
+  let semanticMapper: SemanticMapper;
+  let sqlGenerator: SQLGenerator;
+  let clarifier: Clarifier;
+
+  beforeEach(() => {
+    semanticMapper = new SemanticMapper();
+    sqlGenerator = new SQLGenerator(semanticMapper, new DateParser({ referenceDate: new Date(2025, 6, 16) }));
+    clarifier = new Clarifier(semanticMapper);
+    semanticMapper.setSchema([]);
+  });
+
+  const clarify = (question: string) => clarifier.clarify(question, sqlGenerator.buildQueryPlan(question));
+
+  test('asks for a metric instead of selecting everything', () => {
+    const clarification = clarify('abcdefghijklmnopqrstuvwxyz')!;
+    expect(clarification.confidence).toBeLessThan(CLARIFY_BELOW);
+    expect(clarification.options.map(o => o.question)).toContain('How many trips abcdefghijklmnopqrstuvwxyz');
+  });
+
+  test('rewrites a question naming the rows to count without repeating them', () => {
+    const question = 'Show me trips ending at Zilker Park';
+    const plan = { ...sqlGenerator.buildQueryPlan(question), measures: [] };
+    const questions = clarifier.clarify(question, plan)!.options.map(o => o.question);
+    expect(questions).toEqual([
+      'How many trips ending at Zilker Park',
+      'Average ride time for trips ending at Zilker Park',
+      'Total kilometres for trips ending at Zilker Park'
+    ]);
+  });
+
+  test('offers the station roles when the question names none', () => {
+    const clarification = clarify('Trips by station in June 2025')!;
+    expect(clarification.question).toBe('Did you mean start station or end station?');
+    expect(clarification.confidence).toBeGreaterThanOrEqual(CLARIFY_BELOW);
+
+    const end = clarification.options.find(o => o.label === 'end station')!;
+    expect(end.question).toBe('Trips by end station in June 2025');
+    expect(clarify(end.question)).toBeNull();
+    expect(sqlGenerator.buildQueryPlan(end.question).joins.map(j => j.alias)).toEqual(['end_stations']);
+  });
+
+  test('asks which year a month without one means', () => {
+    const clarification = clarify('How many trips in March?')!;
+    expect(clarification.question).toBe('Which year?');
+    expect(clarification.options).toEqual([
+      { label: '2025', question: 'How many trips in March 2025?' },
+      { label: '2024', question: 'How many trips in March 2024?' }
+    ]);
+    expect(clarify('How many trips in March 2025?')).toBeNull();
+  });
+});
+
+describe('ValueIndex', () => {
+  const index = new ValueIndex([
+    { table: 'stations', column: 'station_name', value: 'Congress Avenue' },
+    { table: 'stations', column: 'station_name', value: 'Lamar Boulevard' },
+    { table: 'stations', column: 'station_name', value: 'Zilker Park' },
+    { table: 'bikes', column: 'bike_type', value: 'electric' }
+  ]);
+
+  test('matches exact, abbreviated and misspelt values', () => {
+    expect(index.match('Trips from Congress Avenue').map(m => m.value)).toEqual(['Congress Avenue']);
+    expect(index.match('rides from Lamar Blvd').map(m => m.value)).toEqual(['Lamar Boulevard']);
+    expect(index.match('trips ending at Zilkr Park on electric bikes').map(m => m.value)).toEqual(['Zilker Park', 'electric']);
+    expect(index.match('How many trips were there?')).toEqual([]);
+  });
+
+  test('indexes only categorical text columns', async () => {
+    const schema: TableInfo[] = [
+      {
+        table_name: 'stations',
+        primary_key: ['station_code'],
+        columns: [
+          { table_name: 'stations', column_name: 'station_code', data_type: 'text', is_nullable: 'NO', column_default: null },
+          { table_name: 'stations', column_name: 'station_name', data_type: 'text', is_nullable: 'NO', column_default: null },
+          { table_name: 'stations', column_name: 'capacity', data_type: 'integer', is_nullable: 'YES', column_default: null },
+          { table_name: 'stations', column_name: 'notes', data_type: 'character varying', is_nullable: 'YES', column_default: null }
+        ]
+      }
+    ];
+    const fetched: string[] = [];
+    const built = await ValueIndex.build(schema, async (table, column, limit) => {
+      fetched.push(column);
+      return column === 'notes' ? Array.from({ length: limit }, (_, i) => `note ${i}`) : ['Zilker Park'];
+    }, { maxValuesPerColumn: 5 });
+
+    expect(fetched).toEqual(['station_name', 'notes']);
+    expect(built.size()).toBe(1);
+  });
+
+  test('filters on the exact value for the role around it', () => {
+    const semanticMapper = new SemanticMapper();
+    semanticMapper.setSchema([]);
+    semanticMapper.setValueIndex(index);
+    const sqlGenerator = new SQLGenerator(semanticMapper);
+
+    const from = sqlGenerator.generateSQL('How many rides from Lamar Blvd?');
+    expect(from.sql).toContain('LEFT JOIN stations AS start_stations ON trips.start_station_id = start_stations.station_id WHERE start_stations.station_name = $1');
+    expect(from.params).toEqual(['Lamar Boulevard']);
+
+    const plan = sqlGenerator.buildQueryPlan('How many trips ending at Zilker Park?');
+    expect(plan.filters).toEqual([
+      { kind: 'comparison', field: 'end_station', expression: column('end_stations', 'station_name'), operator: '=', value: 'Zilker Park' }
+    ]);
+    expect(semanticMapper.findRoles('How many trips ending at Zilker Park?')).toEqual({ stations: 'end' });
+  });
+});
+
+describe('Station Roles', () => {
+  let semanticMapper: SemanticMapper;
+  let sqlGenerator: SQLGenerator;
+
+  beforeEach(() => {
+    semanticMapper = new SemanticMapper();
+    sqlGenerator = new SQLGenerator(semanticMapper);
+    semanticMapper.setSchema([]);
+    semanticMapper.setValueIndex(new ValueIndex([
+      { table: 'stations', column: 'station_name', value: 'Congress Avenue' },
+      { table: 'stations', column: 'station_name', value: 'Zilker Park' }
+    ]));
+  });
+
+  test('maps departure and arrival vocabulary to roles', () => {
+    expect(semanticMapper.findRoles('Which docking point saw the most departures?')).toEqual({ stations: 'start' });
+    expect(semanticMapper.findRoles('Which station had the most arrivals?')).toEqual({ stations: 'end' });
+    expect(semanticMapper.findRoles('Which return station is busiest?')).toEqual({ stations: 'end' });
+    expect(semanticMapper.findRoles('How many trips at the end of June?')).toEqual({});
+  });
+
+  test('joins the end station for arrivals', () => {
+    const { sql } = sqlGenerator.generateSQL('Which station had the most arrivals in June 2025?');
+    expect(sql).toContain('LEFT JOIN stations AS end_stations ON trips.end_station_id = end_stations.station_id');
+    expect(sql).toContain('GROUP BY end_stations.station_name ORDER BY trip_count DESC LIMIT 1');
+  });
+
+  test('filters both ends of a route under separate aliases', () => {
+    const { sql, params } = sqlGenerator.generateSQL('How many trips from Congress Avenue to Zilker Park?');
+    expect(sql).toContain('WHERE start_stations.station_name = $1 AND end_stations.station_name = $2');
+    expect(params).toEqual(['Congress Avenue', 'Zilker Park']);
+  });
+
+  test('counts trips ending at a station without asking what to measure', async () => {
+    const { sql, params } = sqlGenerator.generateSQL('trips ending at Zilker Park');
+    expect(sql).toBe('SELECT COUNT(*) as trip_count FROM trips LEFT JOIN stations AS end_stations ON trips.end_station_id = end_stations.station_id WHERE end_stations.station_name = $1');
+    expect(params).toEqual(['Zilker Park']);
+
+    const queryService = new QueryService(new FixtureDatabase());
+    try {
+      const response = await queryService.processQuery('trips ending at Zilker Park');
+      expect(response).toMatchObject({ result: 4, answer: 'Number of trips to Zilker Park was 4.', error: null });
+      expect(response.clarification).toBeUndefined();
+    } finally {
+      await queryService.close();
+    }
+  });
+
+  test('groups routes by both stations', () => {
+    const plan = sqlGenerator.buildQueryPlan('What is the most popular route?');
+    expect(plan.dimensions).toEqual([
+      { alias: 'start_station', expression: column('start_stations', 'station_name') },
+      { alias: 'end_station', expression: column('end_stations', 'station_name') }
+    ]);
+    expect(plan.joins.map(j => j.alias)).toEqual(['start_stations', 'end_stations']);
+    expect(sqlGenerator.renderPlan(plan).sql).toContain('GROUP BY start_stations.station_name, end_stations.station_name ORDER BY trip_count DESC LIMIT 1');
+  });
+
+  testSqlite('answers route questions with both stations', async () => {
+    const plan = sqlGenerator.buildQueryPlan('routes from Congress Avenue to Zilker Park');
+    expect(plan.dimensions.map(d => d.alias)).toEqual(['start_station', 'end_station']);
+    expect(plan.filters.map(f => f.field)).toEqual(['start_station', 'end_station']);
+
+    // pg-mem mixes up the two station names, so the route runs on SQLite
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'routes-'));
+    const file = path.join(directory, 'fixture.db');
+    const db = new Database(file);
+    db.exec(fixtureSql());
+    db.close();
+    const queryService = new QueryService(new SQLiteDataSource(file));
+    try {
+      const route = await queryService.processQuery('routes from Congress Avenue to Zilker Park');
+      expect(route.clarification).toBeUndefined();
+      expect(route.result).toEqual([{ start_station: 'Congress Avenue', end_station: 'Zilker Park', trip_count: 2 }]);
+      expect(route.answer).toBe('Start station Congress Avenue and end station Zilker Park had the highest number of trips from Congress Avenue to Zilker Park, at 2.');
+
+      // The busiest route is a whole row, not just its start station
+      const busiest = await queryService.processQuery('What is the most popular route?');
+      expect(busiest.result).toEqual([expect.objectContaining({ start_station: expect.any(String), end_station: expect.any(String) })]);
+      expect(busiest.answer).toMatch(/^Start station .+ and end station .+ had the highest number of trips/);
+    } finally {
+      await queryService.close();
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('SQLValidator', () => {
+  const table = (name: string, columns: string[]): TableInfo => ({
+    table_name: name,
+    columns: columns.map(c => ({ table_name: name, column_name: c, data_type: 'text', is_nullable: 'YES', column_default: null }))
+  });
+  const schema: TableInfo[] = [
+    table('trips', ['trip_id', 'started_at', 'ended_at', 'start_station_id', 'end_station_id', 'trip_distance_km', 'rider_gender']),
+    table('stations', ['station_id', 'station_name']),
+    table('daily_weather', ['weather_date', 'precipitation_mm'])
+  ];
+  const validator = new SQLValidator(schema);
+  const codeOf = (sql: string) => {
+    try {
+      validator.validate(sql);
+      return null;
+    } catch (error) {
+      return (error as any).code;
+    }
+  };
+
+  test('accepts generated queries', () => {
+    const semanticMapper = new SemanticMapper();
+    semanticMapper.setSchema(schema);
+    const sqlGenerator = new SQLGenerator(semanticMapper);
+
+    [
+      'How many kilometres were ridden by women on rainy days in June 2025?',
+      'Which docking point saw the most departures during the first week of June 2025?',
+      'Average ride time by weekday and hour',
+      'Compare trips in June and July 2025',
+      'What is the most popular route?'
+    ].forEach(question => {
+      expect(codeOf(sqlGenerator.generateSQL(question).sql)).toBeNull();
+    });
+  });
+
+  test('rejects anything but a single SELECT', () => {
+    expect(codeOf('DROP TABLE trips')).toBe('NOT_SELECT');
+    expect(codeOf('SELECT COUNT(*) FROM trips; DELETE FROM trips')).toBe('MULTIPLE_STATEMENTS');
+    expect(codeOf('SELECT * INTO backup FROM trips')).toBe('FORBIDDEN_KEYWORD');
+    expect(codeOf('SELECT * FROM trips FOR UPDATE')).toBe('FORBIDDEN_KEYWORD');
+    expect(codeOf('SELECT * FROM trips -- WHERE rider_gender = $1')).toBe('INVALID_SQL');
+    expect(codeOf('SELECT COUNT(*) FROM trips;')).toBeNull();
+  });
+
+  test('rejects tables, columns and functions outside the schema', () => {
+    expect(codeOf('SELECT * FROM pg_shadow')).toBe('TABLE_NOT_ALLOWED');
+    expect(codeOf('SELECT trips.password FROM trips')).toBe('COLUMN_NOT_ALLOWED');
+    expect(codeOf('SELECT station_name FROM trips')).toBe('COLUMN_NOT_ALLOWED');
+    expect(codeOf('SELECT pg_sleep(60) FROM trips')).toBe('FUNCTION_NOT_ALLOWED');
+    expect(codeOf("SELECT rider_gender FROM trips WHERE rider_gender = 'drop table; --'")).toBeNull();
+  });
+});
+
+describe('SQL Generation Strategies', () => {
+  const table = (name: string, columns: string[]): TableInfo => ({
+    table_name: name,
+    columns: columns.map(c => ({ table_name: name, column_name: c, data_type: 'text', is_nullable: 'YES', column_default: null }))
+  });
+  const schema: TableInfo[] = [
+    table('trips', ['trip_id', 'started_at', 'ended_at', 'start_station_id', 'end_station_id', 'trip_distance_km', 'rider_gender']),
+    table('stations', ['station_id', 'station_name'])
+  ];
+
+  // A local OpenAI-compatible endpoint answering with whatever `reply` holds
+  let server: Server;
+  let baseUrl: string;
+  let reply: { status: number; content: string };
+  let requests: any[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        requests.push({ url: req.url, authorization: req.headers.authorization, body: JSON.parse(body) });
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: reply.content } }] }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  let semanticMapper: SemanticMapper;
+  let validator: SQLValidator;
+  let rules: RuleBasedStrategy;
+  let llm: LLMStrategy;
+
+  beforeEach(() => {
+    requests = [];
+    semanticMapper = new SemanticMapper();
+    semanticMapper.setSchema(schema);
+    validator = new SQLValidator(schema);
+    rules = new RuleBasedStrategy(new SQLGenerator(semanticMapper), new Clarifier(semanticMapper));
+    llm = new LLMStrategy(semanticMapper, validator, { baseUrl, apiKey: 'secret', model: 'test-model' });
+  });
+
+  test('describes tables and keys for the prompt', () => {
+    expect(buildSchemaPrompt([{ ...schema[1], primary_key: ['station_id'] }])).toBe(
+      'stations (station_id text, station_name text)\n  primary key (station_id)'
+    );
+  });
+
+  test('asks the model for SQL and validates the answer', async () => {
+    reply = { status: 200, content: '```json\n{"sql": "SELECT COUNT(*) AS trips FROM trips WHERE rider_gender = \'female\';", "confidence": 0.9}\n```' };
+    const candidate = await llm.generate('How many trips did women take?');
+
+    expect(candidate).toEqual({
+      strategy: 'llm',
+      sql: "SELECT COUNT(*) AS trips FROM trips WHERE rider_gender = 'female'",
+      params: [],
+      confidence: 0.9
+    });
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].authorization).toBe('Bearer secret');
+    expect(requests[0].body.model).toBe('test-model');
+    expect(requests[0].body.messages[0].content).toContain('trips (trip_id text, started_at text');
+  });
+
+  test('rejects SQL from the model that fails validation', async () => {
+    reply = { status: 200, content: 'DROP TABLE trips' };
+    await expect(llm.generate('Delete everything')).rejects.toMatchObject({ code: 'NOT_SELECT' });
+
+    reply = { status: 500, content: '' };
+    await expect(llm.generate('How many trips?')).rejects.toMatchObject({ code: 'GENERATION_FAILED' });
+  });
+
+  test('falls back to the next strategy when one fails', async () => {
+    reply = { status: 500, content: '' };
+    const candidate = await new FallbackStrategy([llm, rules], validator).generate('How many trips were taken?', null);
+    expect(candidate.strategy).toBe('rules');
+    expect(candidate.sql).toBe('SELECT COUNT(*) as trip_count FROM trips');
+
+    // Too vague for the rules, so the model answers
+    reply = { status: 200, content: '{"sql": "SELECT COUNT(*) FROM trips"}' };
+    const vague = await new FallbackStrategy([rules, llm], validator).generate('Show me stuff', null);
+    expect(vague.strategy).toBe('llm');
+    expect(vague.confidence).toBe(0.6);
+  });
+
+  test('picks the most confident valid candidate in an ensemble', async () => {
+    const ensemble = new EnsembleStrategy([rules, llm], validator);
+
+    reply = { status: 200, content: '{"sql": "SELECT COUNT(*) FROM trips", "confidence": 0.9}' };
+    expect((await ensemble.generate('How many trips were taken?', null)).strategy).toBe('rules');
+
+    reply = { status: 200, content: '{"sql": "SELECT COUNT(*) FROM trips", "confidence": 0.9}' };
+    expect((await ensemble.generate('Trips by station', null)).strategy).toBe('llm');
+  });
+});
+
+describe('ResultCache', () => {
+  let now: number;
+  let backend: MemoryCacheBackend;
+  let cache: ResultCache;
+
+  beforeEach(() => {
+    now = Date.UTC(2025, 6, 1);
+    backend = new MemoryCacheBackend({ maxEntries: 2, now: () => now });
+    cache = new ResultCache(backend, { ttlMs: 1000, now: () => now });
+  });
+
+  test('returns stored results until they expire', async () => {
+    const stored = await cache.set('select count(*) from trips', [], { rows: [{ count: 5 }], truncated: false, totalCount: 1 });
+    expect(stored).toEqual({ rows: [{ count: 5 }], truncated: false, totalCount: 1, storedAt: now, expiresAt: now + 1000 });
+    expect(await cache.get('select count(*) from trips', [])).toEqual(stored);
+    expect(await cache.get('select count(*) from trips', ['female'])).toBeNull();
+
+    now += 1000;
+    expect(await cache.get('select count(*) from trips', [])).toBeNull();
+  });
+
+  test('evicts the least recently used entry', async () => {
+    const empty = { rows: [], truncated: false, totalCount: 0 };
+    await cache.set('a', [], empty);
+    await cache.set('b', [], empty);
+    await cache.get('a', []);
+    await cache.set('c', [], empty);
+
+    expect(await cache.get('a', [])).not.toBeNull();
+    expect(await cache.get('b', [])).toBeNull();
+    expect(backend.size()).toBe(2);
+  });
+
+  test('keys the same query the same way regardless of layout', () => {
+    const validator = new SQLValidator();
+    expect(validator.normalize('SELECT  COUNT(*)\n FROM trips WHERE x = \'A  b\';'))
+      .toBe(validator.normalize("select count ( * ) from TRIPS where x = 'A  b'"));
+    expect(validator.normalize("SELECT 'A  b'")).toBe("select 'A  b'");
+  });
+
+  // Redis as a map of strings
+  const fakeRedis = (): RedisCommands => {
+    const store = new Map<string, string>();
+    return {
+      get: async key => store.get(key) ?? null,
+      set: async (key, value) => { store.set(key, value); },
+      incr: async key => {
+        const value = parseInt(store.get(key) || '0') + 1;
+        store.set(key, String(value));
+        return value;
+      }
+    };
+  };
+
+  test('clears a shared Redis cache by moving to a new generation', async () => {
+    const redis = new ResultCache(new RedisCacheBackend(fakeRedis()), { ttlMs: 1000, now: () => now });
+
+    await redis.set('select 1', [], { rows: [{ value: 1 }], truncated: false, totalCount: 1 });
+    expect((await redis.get('select 1', []))!.rows).toEqual([{ value: 1 }]);
+
+    await redis.clear();
+    expect(await redis.get('select 1', [])).toBeNull();
+  });
+
+  test('returns dates from Redis as dates', async () => {
+    const redis = new ResultCache(new RedisCacheBackend(fakeRedis()), { ttlMs: 1000, now: () => now });
+    const rows = [{ started_at: new Date(2025, 5, 1, 8, 10), station: { $date: 'not a date', name: 'Zilker Park' } }];
+
+    await redis.set('select started_at from trips', [], { rows, truncated: false, totalCount: 1 });
+    const cached = await redis.get('select started_at from trips', []);
+    expect(cached!.rows).toEqual(rows);
+    expect(cached!.rows[0].started_at).toBeInstanceOf(Date);
+  });
+
+  test('answers a repeated question from the cache unless asked for a fresh result', async () => {
+    const queryService = new QueryService(new FixtureDatabase());
+    const question = 'How many trips were there in June 2025?';
+    const ask = (fresh: boolean) => request(createApp(queryService, { allowAnonymous: true }))
+      .post(fresh ? '/query?fresh=true' : '/query')
+      .send({ question })
+      .expect(200);
+
+    try {
+      const first = await queryService.processQuery(question);
+      expect(first.cache!.status).toBe('miss');
+      const second = await queryService.processQuery(question);
+      expect(second.cache).toEqual({ ...first.cache, status: 'hit' });
+      expect(second.result).toEqual(first.result);
+      expect((await queryService.processQuery(question, undefined, { fresh: true })).cache!.status).toBe('bypass');
+
+      expect((await ask(false)).body.cache.status).toBe('hit');
+      const fresh = (await ask(true)).body;
+      expect(fresh.cache.status).toBe('bypass');
+      expect(fresh.result).toBe(first.result);
+    } finally {
+      await queryService.close();
+    }
+  });
+
+  test('speaks the Redis protocol', () => {
+    expect(encodeCommand(['SET', 'key', 'välue'])).toBe('*3\r\n$3\r\nSET\r\n$3\r\nkey\r\n$6\r\nvälue\r\n');
+    expect(parseReply(Buffer.from('$5\r\nhello\r\n'), 0)).toEqual({ reply: 'hello', next: 11 });
+    expect(parseReply(Buffer.from('$5\r\nhel'), 0)).toBeNull();
+    expect(parseReply(Buffer.from('$-1\r\n'), 0)).toEqual({ reply: null, next: 5 });
+    expect(parseReply(Buffer.from('*2\r\n:1\r\n+OK\r\n'), 0)).toEqual({ reply: [1, 'OK'], next: 13 });
+    expect(parseReply(Buffer.from('-ERR wrong\r\n'), 0)).toEqual({ reply: null, error: 'ERR wrong', next: 12 });
+  });
+
+  test('keeps an idle Redis connection and times out only unanswered commands', async () => {
+    // Answers GET with the key, except "slow", which it never answers
+    const connections: Socket[] = [];
+    const server = createTcpServer(socket => {
+      connections.push(socket);
+      socket.on('data', chunk => {
+        const key = chunk.toString().split('\r\n')[4];
+        if (key !== 'slow') socket.write(`$${key.length}\r\n${key}\r\n`);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const client = new RedisClient(`redis://127.0.0.1:${(server.address() as AddressInfo).port}`, { timeoutMs: 50 });
+
+    try {
+      expect(await client.get('first')).toBe('first');
+      await new Promise(resolve => setTimeout(resolve, 150));
+      expect(await client.get('second')).toBe('second');
+      expect(connections.length).toBe(1);
+
+      await expect(client.get('slow')).rejects.toThrow('Redis command timed out');
+      expect(await client.get('third')).toBe('third');
+      expect(connections.length).toBe(2);
+    } finally {
+      connections.forEach(socket => socket.destroy());
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
+
+describe('Schema Changes', () => {
+  const column = (table: string, name: string, type: string = 'text', nullable: string = 'YES') =>
+    ({ table_name: table, column_name: name, data_type: type, is_nullable: nullable, column_default: null });
+  const before: TableInfo[] = [
+    { table_name: 'trips', columns: [column('trips', 'trip_id', 'integer', 'NO'), column('trips', 'rider_gender')], primary_key: ['trip_id'] },
+    { table_name: 'riders', columns: [column('riders', 'rider_id', 'integer')] }
+  ];
+  const after: TableInfo[] = [
+    { table_name: 'trips', columns: [column('trips', 'trip_id', 'bigint', 'NO'), column('trips', 'started_at', 'timestamp')], primary_key: ['trip_id'] },
+    { table_name: 'stations', columns: [column('stations', 'station_id', 'integer')] }
+  ];
+
+  test('lists added, removed and changed tables and columns', () => {
+    const diff = diffSchemas(before, after);
+    expect(diff).toEqual({
+      addedTables: ['stations'],
+      removedTables: ['riders'],
+      addedColumns: ['trips.started_at'],
+      removedColumns: ['trips.rider_gender'],
+      changedColumns: [{ table: 'trips', column: 'trip_id', from: 'integer NOT NULL', to: 'bigint NOT NULL' }],
+      changedKeys: []
+    });
+    expect(describeDiff(diff)).toContain('changed column trips.trip_id from integer NOT NULL to bigint NOT NULL');
+    expect(isEmptyDiff(diffSchemas(after, after))).toBe(true);
+  });
+
+  test('versions schemas by content, not introspection order', () => {
+    expect(schemaVersion([...before].reverse())).toBe(schemaVersion(before));
+    expect(schemaVersion(after)).not.toBe(schemaVersion(before));
+    expect(schemaVersion(before)).toMatch(/^[0-9a-f]{12}$/);
+
+    const rekeyed = [{ ...before[0], primary_key: ['rider_gender'] }, before[1]];
+    expect(schemaVersion(rekeyed)).not.toBe(schemaVersion(before));
+    expect(diffSchemas(before, rekeyed).changedKeys).toEqual(['trips']);
+  });
+
+  describeSqlite('reloading', () => {
+    const question = 'How many trips on electric bikes?';
+    const june = 'How many trips were there in June 2025?';
+    let directory: string;
+    let file: string;
+    let queryService: QueryService;
+
+    // Adds a column with values only a reloaded value index and validator know about
+    const migrate = () => {
+      const db = new Database(file);
+      db.exec("ALTER TABLE trips ADD COLUMN bike_type TEXT; UPDATE trips SET bike_type = CASE WHEN trip_id % 2 = 0 THEN 'electric' ELSE 'classic' END;");
+      db.close();
+    };
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'reload-'));
+      file = path.join(directory, 'fixture.db');
+      const db = new Database(file);
+      db.exec(fixtureSql());
+      db.close();
+      queryService = new QueryService(new SQLiteDataSource(file));
+    });
+
+    afterEach(async () => {
+      await queryService.close();
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('swaps in the new schema and drops cached results', async () => {
+      expect((await queryService.processQuery(question)).sql).toBe('SELECT COUNT(*) as trip_count FROM trips');
+      await queryService.processQuery(june);
+      expect((await queryService.processQuery(june)).cache!.status).toBe('hit');
+
+      // Nothing changed: cached results stay
+      const unchanged = await queryService.reloadSchema();
+      expect(unchanged).toMatchObject({ changed: false, version: unchanged.previousVersion });
+      expect((await queryService.processQuery(june)).cache!.status).toBe('hit');
+
+      migrate();
+      const reload = await queryService.reloadSchema();
+      expect(reload).toMatchObject({ changed: true, diff: { addedColumns: ['trips.bike_type'] } });
+      expect(reload.version).not.toBe(reload.previousVersion);
+      expect(queryService.getSchemaStatus().version).toBe(reload.version);
+
+      // The mapper finds the new values and the validator allows their column
+      const electric = await queryService.processQuery(question);
+      expect(electric).toMatchObject({ sql: 'SELECT COUNT(*) as trip_count FROM trips WHERE trips.bike_type = ?', result: 8, error: null });
+      expect((await queryService.processQuery(june)).cache!.status).toBe('miss');
+    });
+
+    test('reloads through /admin/schema/reload with the admin token only', async () => {
+      const previousToken = process.env.ADMIN_TOKEN;
+      const app = createApp(queryService, { allowAnonymous: true });
+      try {
+        delete process.env.ADMIN_TOKEN;
+        await request(app).post('/admin/schema/reload').expect(403);
+
+        process.env.ADMIN_TOKEN = 'secret';
+        await request(app).post('/admin/schema/reload').expect(401, { error: 'Invalid admin token' });
+        await request(app).post('/admin/schema/reload').set('Authorization', 'Bearer wrong').expect(401);
+
+        await queryService.initialize();
+        const before = (await request(app).get('/health').expect(200)).body.schema.version;
+        expect(before).toMatch(/^[0-9a-f]{12}$/);
+        migrate();
+        const reload = await request(app).post('/admin/schema/reload').set('Authorization', 'Bearer secret').expect(200);
+        expect(reload.body).toMatchObject({ previousVersion: before, changed: true });
+
+        const health = await request(app).get('/health').expect(200);
+        expect(health.body.schema).toMatchObject({ version: reload.body.version, tables: 3 });
+        expect(health.body.schema.version).not.toBe(before);
+      } finally {
+        if (previousToken === undefined) {
+          delete process.env.ADMIN_TOKEN;
+        } else {
+          process.env.ADMIN_TOKEN = previousToken;
+        }
+      }
+    });
+  });
+});
+
+describe('Pagination', () => {
+  const rows = [1, 2, 3, 4, 5];
+  const key = queryKey('select * from trips', []);
+
+  test('pages through rows with cursors', () => {
+    const first = paginate(rows, key, 2);
+    expect(first.rows).toEqual([1, 2]);
+    expect(first.page).toMatchObject({ limit: 2, offset: 0 });
+
+    const second = paginate(rows, key, 2, first.page.nextCursor!);
+    expect(second.rows).toEqual([3, 4]);
+
+    const last = paginate(rows, key, 2, second.page.nextCursor!);
+    expect(last.rows).toEqual([5]);
+    expect(last.page.nextCursor).toBeNull();
+  });
+
+  test('rejects cursors of other queries and malformed cursors', () => {
+    const cursor = paginate(rows, key, 2).page.nextCursor!;
+    expect(() => paginate(rows, queryKey('select * from trips', ['female']), 2, cursor)).toThrow(expect.objectContaining({ code: 'INVALID_CURSOR' }));
+    expect(() => paginate(rows, key, 2, 'not-a-cursor')).toThrow(expect.objectContaining({ code: 'INVALID_CURSOR' }));
+    expect(() => paginate(rows, key, 2, encodeCursor(-1, key))).toThrow(expect.objectContaining({ code: 'INVALID_CURSOR' }));
+  });
+
+  describe('through the API', () => {
+    const question = 'How many trips by hour in June 2025?';
+    let previousMaxRows: string | undefined;
+    let queryService: QueryService;
+
+    beforeEach(() => {
+      // The fixture has 8 hours with trips in June
+      previousMaxRows = process.env.MAX_RESULT_ROWS;
+      process.env.MAX_RESULT_ROWS = '5';
+      queryService = new QueryService(new FixtureDatabase());
+    });
+
+    afterEach(async () => {
+      await queryService.close();
+      if (previousMaxRows === undefined) {
+        delete process.env.MAX_RESULT_ROWS;
+      } else {
+        process.env.MAX_RESULT_ROWS = previousMaxRows;
+      }
+    });
+
+    test('pages through capped results and counts every row', async () => {
+      const first = await queryService.processQuery(question, undefined, { limit: 2 });
+      expect(first.result).toEqual([{ hour: 7, trip_count: 1 }, { hour: 8, trip_count: 2 }]);
+      expect(first).toMatchObject({ truncated: true, totalCount: 8, page: { limit: 2, offset: 0 } });
+
+      const second = await queryService.processQuery(question, first.sessionId, { limit: 2, cursor: first.page!.nextCursor! });
+      expect(second.result).toEqual([{ hour: 9, trip_count: 1 }, { hour: 11, trip_count: 1 }]);
+      expect(second.page).toMatchObject({ limit: 2, offset: 2 });
+
+      // Pages end at the cap, not at the total
+      const last = await queryService.processQuery(question, first.sessionId, { limit: 2, cursor: second.page!.nextCursor! });
+      expect(last.result).toEqual([{ hour: 12, trip_count: 1 }]);
+      expect(last.page).toEqual({ limit: 2, offset: 4, nextCursor: null });
+
+      const other = await queryService.processQuery('How many trips by hour in May 2025?', undefined, { cursor: first.page!.nextCursor! });
+      expect(other.errorCode).toBe('INVALID_CURSOR');
+
+      // A single value is not paged
+      const count = await queryService.processQuery('How many trips were there in June 2025?');
+      expect(count).toMatchObject({ result: 10 });
+      expect(count.page).toBeUndefined();
+      expect(count.truncated).toBeUndefined();
+    });
+
+    test('pages and streams over HTTP', async () => {
+      const app = createApp(queryService, { allowAnonymous: true });
+
+      const page = await request(app).post('/query').send({ question, limit: 3 }).expect(200);
+      expect(page.body).toMatchObject({ truncated: true, totalCount: 8, page: { limit: 3, offset: 0 } });
+      await request(app).post('/query').send({ question, limit: 'all' }).expect(400);
+      await request(app).post('/query').send({ question, cursor: 'not-a-cursor' }).expect(400);
+
+      // Every row, past the cap, as a line of JSON each
+      const stream = await request(app).post('/query/stream').send({ question }).expect(200);
+      expect(stream.headers['content-type']).toMatch(/^application\/x-ndjson/);
+      const lines = stream.text.trim().split('\n').map(line => JSON.parse(line));
+      expect(lines).toHaveLength(8);
+      expect(lines[0]).toEqual({ hour: 7, trip_count: 1 });
+
+      await request(app).post('/query/stream').send({}).expect(400);
+      const unanswerable = await request(app).post('/query/stream').send({ question: 'Trips at Congress Avenue vs everything' }).expect(422);
+      expect(unanswerable.body.errorCode).toBe('UNSUPPORTED_QUESTION');
+    });
+  });
+});
+
+describe('Result Export', () => {
+  const columns = [
+    { name: 'started_on', role: 'dimension' as const, type: 'date' as const },
+    { name: 'station', role: 'dimension' as const, type: 'string' as const },
+    { name: 'trip_count', role: 'measure' as const, type: 'number' as const }
+  ];
+  // As pg returns them: DATE at local midnight, COUNT as a string
+  const rows = [
+    { started_on: new Date(2024, 5, 1), station: 'Main St, "North"', trip_count: '42' },
+    { started_on: new Date(2024, 5, 2), station: '=SUM(A1)', trip_count: null }
+  ];
+
+  const serialize = (format: ExportFormat) => {
+    const writer = new ExportWriter(format, columns);
+    return writer.start() + writer.write(rows.slice(0, 1)) + writer.write(rows.slice(1)) + writer.end();
+  };
+
+  test('quotes CSV fields and neutralizes formulas', () => {
+    expect(serialize('csv')).toBe(
+      'started_on,station,trip_count\r\n' +
+      '2024-06-01,"Main St, ""North""",42\r\n' +
+      "2024-06-02,'=SUM(A1),\r\n"
+    );
+  });
+
+  test('types values in JSON, NDJSON and columnar JSON', () => {
+    const expected = [
+      { started_on: '2024-06-01', station: 'Main St, "North"', trip_count: 42 },
+      { started_on: '2024-06-02', station: '=SUM(A1)', trip_count: null }
+    ];
+    expect(JSON.parse(serialize('json'))).toEqual(expected);
+    expect(serialize('ndjson').trim().split('\n').map(line => JSON.parse(line))).toEqual(expected);
+    expect(JSON.parse(serialize('columnar'))).toEqual({
+      columns: columns.map(({ name, type }) => ({ name, type })),
+      rowCount: 2,
+      data: { started_on: ['2024-06-01', '2024-06-02'], station: ['Main St, "North"', '=SUM(A1)'], trip_count: [42, null] }
+    });
+  });
+
+  test('writes TSV and empty results', () => {
+    const writer = new ExportWriter('tsv', columns);
+    expect(writer.start() + writer.write([{ started_on: null, station: 'a\tb', trip_count: '1.5' }]) + writer.end())
+      .toBe('started_on\tstation\ttrip_count\n\ta b\t1.5\n');
+
+    const empty = new ExportWriter('json', columns);
+    expect(empty.start() + empty.end()).toBe('[]');
+  });
+
+  test('names files after the question', () => {
+    expect(exportFilename('Trips by hour in June?', 'csv')).toBe('trips-by-hour-in-june.csv');
+    expect(exportFilename('???', 'columnar')).toBe('result.json');
+  });
+
+  test('forgets queries once expired or evicted', () => {
+    let now = 0;
+    const store = new ResultStore({ ttlMs: 1000, maxEntries: 2, now: () => now });
+    const query = { question: 'trips', sql: 'select 1', params: [] };
+
+    const first = store.add(query);
+    const second = store.add(query);
+    expect(store.get(first)).toMatchObject({ id: first, sql: 'select 1' });
+
+    // second is now the least recently used
+    store.add(query);
+    expect(store.get(second)).toBeNull();
+    expect(store.get(first)).not.toBeNull();
+
+    now = 1001;
+    expect(store.get(first)).toBeNull();
+  });
+});
+
+describe('Visualization', () => {
+  const plan: QueryPlan = {
+    intent: QueryIntent.COUNT,
+    from: { table: 'trips', alias: 'trips' },
+    measures: [{ alias: 'trip_count', aggregate: 'count', expression: null }],
+    dimensions: [{ alias: 'gender', expression: column('trips', 'rider_gender') }],
+    filters: [],
+    joins: [],
+    orderBy: [{ alias: 'trip_count', direction: 'DESC' }],
+    limit: null
+  };
+  const gender = { name: 'gender', role: 'dimension' as const, type: 'string' as const };
+  const tripCount = { name: 'trip_count', role: 'measure' as const, type: 'number' as const };
+  const distance = { name: 'distance_km', role: 'measure' as const, type: 'number' as const, unit: 'km' };
+
+  test('charts shares of a count as a pie and many groups as bars', () => {
+    expect(recommendVisualization([gender, tripCount], 3, plan)).toEqual({ type: 'pie', x: 'gender', y: ['trip_count'], units: {} });
+    expect(recommendVisualization([gender, tripCount], 12, plan)?.type).toBe('bar');
+    expect(recommendVisualization([gender, tripCount], 3, { ...plan, limit: 3 })?.type).toBe('bar');
+    expect(recommendVisualization([gender, tripCount], 200, plan)).toBeNull();
+  });
+
+  test('charts time breakdowns as lines with a series per second dimension', () => {
+    const day = { name: 'day', role: 'dimension' as const, type: 'date' as const };
+    const dayPlan = { ...plan, dimensions: [{ alias: 'day', expression: { kind: 'date' as const, of: column('trips', 'started_at') } }, plan.dimensions[0]] };
+    expect(recommendVisualization([day, gender, tripCount], 60, dayPlan))
+      .toEqual({ type: 'line', x: 'day', y: ['trip_count'], series: 'gender', units: {} });
+    // Without a plan, from the column types alone
+    expect(recommendVisualization([day, tripCount], 30)?.type).toBe('line');
+  });
+
+  test('shows single values as a stat with units', () => {
+    expect(recommendVisualization([distance], 1)).toEqual({ type: 'stat', y: ['distance_km'], units: { distance_km: 'km' } });
+    expect(recommendVisualization([gender, tripCount], 1, plan)).toBeNull();
+    expect(recommendVisualization([gender], 4)).toBeNull();
+  });
+});
+
+describe('AnswerGenerator', () => {
+  let semanticMapper: SemanticMapper;
+  let sqlGenerator: SQLGenerator;
+  let answers: AnswerGenerator;
+
+  beforeEach(() => {
+    semanticMapper = new SemanticMapper();
+    sqlGenerator = new SQLGenerator(semanticMapper, new DateParser({ referenceDate: new Date(2025, 6, 16) }));
+    answers = new AnswerGenerator(semanticMapper);
+    semanticMapper.setSchema([]);
+    semanticMapper.setValueIndex(new ValueIndex([{ table: 'stations', column: 'station_name', value: 'Congress Avenue' }]));
+  });
+
+  const answer = (question: string, rows: any[]) => answers.answer(sqlGenerator.buildQueryPlan(question), rows, rows.length);
+
+  test('states single values with the metric, unit, filters and dates', () => {
+    expect(answer('Average ride time for trips starting at Congress Avenue in June 2025', [{ ride_duration_minutes: '25.4' }]))
+      .toBe('Average ride time for trips from Congress Avenue in June 2025 was 25 minutes.');
+    expect(answer('How many kilometres were ridden by women on rainy days in June 2025?', [{ distance_km: '6.84' }]))
+      .toBe('Total distance ridden for trips by women on rainy days in June 2025 was 6.8 km.');
+    expect(answer('How many trips between March 3 and March 10, 2025?', [{ trip_count: '1200' }]))
+      .toBe('Number of trips from March 3 to March 10, 2025 was 1,200.');
+  });
+
+  test('names the highest and lowest groups', () => {
+    expect(answer('Trips by gender in 2025', [{ gender: 'female', trip_count: '120' }, { gender: 'male', trip_count: '95' }]))
+      .toBe('Number of trips in 2025 was highest for gender female (120) and lowest for gender male (95), across 2 groups.');
+    expect(answer('Kilometres ridden by gender and weather in June 2025', [
+      { gender: 'female', weather: 'rainy', distance_km: '26.7' },
+      { gender: 'female', weather: 'dry', distance_km: '6.8' },
+      { gender: 'male', weather: 'rainy', distance_km: '12.1' }
+    ])).toBe('Total distance ridden in June 2025 was highest for gender female, weather rainy (26.7 km) and lowest for gender female, weather dry (6.8 km), across 3 groups.');
+  });
+
+  test('compares cohorts and reports empty results', () => {
+    const plan = sqlGenerator.buildQueryPlan('How did June 2025 compare to May 2025?');
+    const comparison = {
+      metric: 'trip_count',
+      cohorts: [{ label: 'June 2025', value: 1200 }, { label: 'May 2025', value: 1000 }],
+      difference: 200,
+      percentDifference: 20
+    };
+    expect(answers.answer(plan, [], 1, comparison)).toBe('Number of trips was 1,200 for June 2025 and 1,000 for May 2025, 20% higher.');
+    expect(answer('Average ride time yesterday', [])).toBe('No trips matched on July 15, 2025.');
+    // Averages and sums over no rows come back as one row of NULL
+    expect(answer('Average ride time in July 2025', [{ ride_duration_minutes: null }])).toBe('No trips matched in July 2025.');
+    expect(answer('How many trips in July 2025?', [{ trip_count: '0' }])).toBe('Number of trips in July 2025 was 0.');
+    expect(answers.answer(undefined, [], 0)).toBeNull();
+  });
+});
+
+describe('Units', () => {
+  let semanticMapper: SemanticMapper;
+  let sqlGenerator: SQLGenerator;
+
+  beforeEach(() => {
+    semanticMapper = new SemanticMapper();
+    sqlGenerator = new SQLGenerator(semanticMapper, new DateParser({ referenceDate: new Date(2025, 6, 16) }));
+    semanticMapper.setSchema([]);
+  });
+
+  test('detects the unit a question asks for', () => {
+    expect(requestedUnit('How many miles were ridden?', 'km')?.name).toBe('miles');
+    expect(requestedUnit('Average ride time in hours', 'minutes')?.name).toBe('hours');
+    // A breakdown by hour is not a duration in hours
+    expect(requestedUnit('Average ride time by hour', 'minutes')).toBeNull();
+    expect(requestedUnit('How many km were ridden?', 'km')).toBeNull();
+    expect(requestedUnit('How many miles were ridden?', 'furlongs')).toBeNull();
+  });
+
+  test('converts in SQL and rounds to the unit', () => {
+    const plan = sqlGenerator.buildQueryPlan('How many miles were ridden in June 2025?');
+    expect(plan.measures[0]).toMatchObject({ alias: 'distance_miles', metric: 'distance_km', unit: 'miles', precision: 1 });
+    expect(sqlGenerator.renderPlan(plan).sql)
+      .toContain(`ROUND((SUM(trips.trip_distance_km) * ${1 / 1.609344})::numeric, 1) as distance_miles`);
+
+    const hours = sqlGenerator.buildQueryPlan('Average ride time in hours by gender');
+    expect(hours.measures[0]).toMatchObject({ alias: 'ride_duration_hours', unit: 'hours', precision: 1, scale: 1 / 60 });
+    expect(hours.orderBy).toEqual([{ alias: 'ride_duration_hours', direction: 'DESC' }]);
+
+    const minutes = sqlGenerator.buildQueryPlan('Average ride time by hour');
+    expect(minutes.measures[0]).toMatchObject({ unit: 'minutes', precision: 0 });
+    expect(minutes.measures[0].scale).toBeUndefined();
+  });
+
+  test('states converted values in their unit', () => {
+    const plan = sqlGenerator.buildQueryPlan('How many miles were ridden in June 2025?');
+    expect(new AnswerGenerator(semanticMapper).answer(plan, [{ distance_miles: '4.2' }], 1))
+      .toBe('Total distance ridden in June 2025 was 4.2 miles.');
+  });
+});
+
+describe('Evaluation', () => {
+  let evaluator: Evaluator;
+  let database: FixtureDatabase;
+
+  beforeAll(async () => {
+    database = new FixtureDatabase();
+    ({ evaluator } = await createFixtureEvaluator(undefined, database));
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  test('answers the acceptance questions from the fixture', async () => {
+    const rows = await database.executeQuery(
+      'SELECT ROUND(AVG(EXTRACT(EPOCH FROM (ended_at - started_at))/60)) as minutes FROM trips WHERE start_station_id = $1 AND DATE(started_at) >= $2::date AND DATE(started_at) <= $3::date',
+      [1, '2025-06-01', '2025-06-30']
+    );
+    expect(rows).toEqual([{ minutes: 25 }]);
+  });
+
+  test('passes every golden question', async () => {
+    const report = await evaluator.run(loadGoldenCases());
+    expect(report.results.filter(result => !result.passed)).toEqual([]);
+    expect(report.byIntent.map(row => row.intent)).toEqual(expect.arrayContaining(['count', 'average', 'sum', 'max', 'min', 'compare']));
+  });
+
+  test('reports mismatched plans and answers per intent', async () => {
+    const cases: GoldenCase[] = [
+      { id: 'right', question: 'How many trips were taken in June 2025?', intent: QueryIntent.COUNT, answer: 10 },
+      { id: 'wrong-answer', question: 'How many trips were taken in May 2025?', intent: QueryIntent.COUNT, answer: 5 },
+      { id: 'wrong-plan', question: 'Average ride time in June 2025', intent: QueryIntent.AVERAGE, filters: ['date', 'weather'] }
+    ];
+    const report = await evaluator.run(cases);
+
+    expect(report.results.map(result => result.failures)).toEqual([
+      [],
+      ['answer: expected 5, got 4'],
+      ['filters: expected ["date","weather"], got ["date"]']
+    ]);
+    expect(report.byIntent).toEqual([
+      { intent: 'count', total: 2, passed: 1, accuracy: 0.5 },
+      { intent: 'average', total: 1, passed: 0, accuracy: 0 }
+    ]);
+    expect(formatReport(report)).toContain('Overall     1/3   33%');
+    expect(formatReport(report)).toContain('FAIL wrong-answer: How many trips were taken in May 2025?');
+  });
+});
+
+describe('DataSource', () => {
+  const limits = { statementTimeoutMs: 1000, maxRows: 2 };
+
+  test('reads connection settings from the environment', () => {
+    const config = databaseConfigFromEnv({
+      DATABASE_URL: 'postgres://app@primary/bikes',
+      DATABASE_REPLICA_URL: 'postgres://app@replica/bikes',
+      PGSSLMODE: 'require',
+      DB_POOL_SIZE: '5',
+      DB_CONNECTION_TIMEOUT_MS: 'soon'
+    });
+    expect(config).toMatchObject({ url: 'postgres://app@primary/bikes', replicaUrl: 'postgres://app@replica/bikes', ssl: 'require', poolSize: 5 });
+    expect(config.connectionTimeoutMs).toBeUndefined();
+
+    expect(poolConfig(config)).toMatchObject({
+      connectionString: 'postgres://app@primary/bikes',
+      ssl: { rejectUnauthorized: false },
+      max: 5,
+      connectionTimeoutMillis: 2000
+    });
+    expect(poolConfig(config, config.replicaUrl).connectionString).toBe('postgres://app@replica/bikes');
+    // Certificates are verified unless told otherwise
+    expect(poolConfig({ host: 'db', ssl: undefined })).toMatchObject({ host: 'db', port: 5432, ssl: true });
+    expect(poolConfig({ ssl: 'disable' }).ssl).toBe(false);
+  });
+
+  test('caps and streams rows in memory and refuses writes', async () => {
+    const schema: TableInfo[] = [{
+      table_name: 'stations',
+      columns: [
+        { table_name: 'stations', column_name: 'station_id', data_type: 'integer', is_nullable: 'NO', column_default: null },
+        { table_name: 'stations', column_name: 'station_name', data_type: 'text', is_nullable: 'YES', column_default: null }
+      ],
+      primary_key: ['station_id']
+    }];
+    const dataSource = new MemoryDataSource(schema, "INSERT INTO stations VALUES (1, 'Congress Avenue'), (2, 'Lamar Boulevard'), (3, 'Zilker Park');");
+
+    try {
+      expect(await dataSource.getSchema()).toBe(schema);
+      expect((await dataSource.getDistinctValues('stations', 'station_name', 10)).sort())
+        .toEqual(['Congress Avenue', 'Lamar Boulevard', 'Zilker Park']);
+
+      const result = await dataSource.executeReadOnly('SELECT station_id FROM stations ORDER BY station_id', [], limits);
+      expect(result).toEqual({ rows: [{ station_id: 1 }, { station_id: 2 }], truncated: true, totalCount: 3 });
+
+      const batches: any[][] = [];
+      expect(await dataSource.streamReadOnly('SELECT station_id FROM stations WHERE station_id > $1', [0], limits, 2, rows => {
+        batches.push(rows);
+      })).toBe(3);
+      expect(batches.map(batch => batch.length)).toEqual([2, 1]);
+
+      await expect(dataSource.executeReadOnly('DELETE FROM stations', [], limits))
+        .rejects.toMatchObject({ code: 'READ_ONLY_VIOLATION' });
+
+      // Explaining runs the query for no rows, and there is no plan to show
+      expect(await dataSource.explain('SELECT station_name FROM stations WHERE station_id > $1 ORDER BY station_name', [0], limits)).toEqual([]);
+      await expect(dataSource.explain('SELECT station_number FROM stations', [], limits)).rejects.toThrow('column "station_number" does not exist');
+      await expect(dataSource.explain('DELETE FROM stations', [], limits)).rejects.toMatchObject({ code: 'READ_ONLY_VIOLATION' });
+      // pg-mem would give both stations the same name
+      await expect(dataSource.executeReadOnly(
+        'SELECT a.station_name, b.station_name FROM stations AS a JOIN stations AS b ON a.station_id = b.station_id GROUP BY a.station_name, b.station_name',
+        [],
+        limits
+      )).rejects.toMatchObject({ code: 'UNSUPPORTED_QUESTION' });
+    } finally {
+      await dataSource.close();
+    }
+  });
+
+  // A pg pool over `rows` answering the cursor statements of DatabaseService, recording them
+  const cursorPool = (rows: any[], failOn?: RegExp) => {
+    const statements: string[] = [];
+    let position = 0;
+    const client = {
+      query: async (sql: string) => {
+        statements.push(sql.trim());
+        if (failOn && failOn.test(sql)) throw Object.assign(new Error('canceling statement due to statement timeout'), { code: '57014' });
+        const fetch = /^FETCH FORWARD (\d+)/.exec(sql);
+        if (fetch) {
+          const batch = rows.slice(position, position + Number(fetch[1]));
+          position += batch.length;
+          return { rows: batch, rowCount: batch.length };
+        }
+        if (sql.startsWith('MOVE FORWARD ALL')) {
+          const moved = rows.length - position;
+          position = rows.length;
+          return { rows: [], rowCount: moved };
+        }
+        return { rows: [], rowCount: 0 };
+      },
+      release: () => statements.push('release')
+    };
+    return { statements, pool: { connect: async () => client, end: async () => undefined } };
+  };
+
+  const withPool = (pool: unknown): DatabaseService => new DatabaseService({ host: 'unused' }, { readPool: pool as Pool });
+
+  test('fetches capped rows from a cursor in a read-only transaction', async () => {
+    const { statements, pool } = cursorPool([1, 2, 3, 4, 5].map(trip_id => ({ trip_id })));
+    const service = withPool(pool);
+    try {
+      expect(await service.executeReadOnly('SELECT trip_id FROM trips WHERE trip_id > $1;', [0], limits))
+        .toEqual({ rows: [{ trip_id: 1 }, { trip_id: 2 }], truncated: true, totalCount: 5 });
+      expect(statements).toEqual([
+        'BEGIN TRANSACTION READ ONLY',
+        'SET LOCAL statement_timeout = 1000',
+        'DECLARE result_cursor NO SCROLL CURSOR FOR SELECT trip_id FROM trips WHERE trip_id > $1',
+        // One row past the cap tells whether there are more, which are counted but not sent
+        'FETCH FORWARD 3 FROM result_cursor',
+        'MOVE FORWARD ALL IN result_cursor',
+        'COMMIT',
+        'release'
+      ]);
+    } finally {
+      await service.close();
+    }
+  });
+
+  test('streams every row from a cursor in batches', async () => {
+    const { statements, pool } = cursorPool([1, 2, 3, 4, 5].map(trip_id => ({ trip_id })));
+    const service = withPool(pool);
+    try {
+      const batches: number[][] = [];
+      const count = await service.streamReadOnly('SELECT trip_id FROM trips', [], limits, 2, rows => {
+        batches.push(rows.map(row => row.trip_id));
+      });
+      // Past the row cap, which only applies to executeReadOnly
+      expect(count).toBe(5);
+      expect(batches).toEqual([[1, 2], [3, 4], [5]]);
+      expect(statements.filter(sql => sql.startsWith('FETCH'))).toEqual(Array(4).fill('FETCH FORWARD 2 FROM result_cursor'));
+      expect(statements.slice(-2)).toEqual(['COMMIT', 'release']);
+
+      // A timed-out fetch rolls back and is reported as such
+      const failing = cursorPool([{ trip_id: 1 }], /^FETCH/);
+      const timedOut = withPool(failing.pool);
+      await expect(timedOut.streamReadOnly('SELECT trip_id FROM trips', [], limits, 2, () => undefined))
+        .rejects.toMatchObject({ code: 'STATEMENT_TIMEOUT' });
+      expect(failing.statements.slice(-2)).toEqual(['ROLLBACK', 'release']);
+      await timedOut.close();
+    } finally {
+      await service.close();
+    }
+  });
+
+  testSqlite('streams rows from a SQLite file while it answers other queries', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'stream-'));
+    const file = path.join(directory, 'fixture.db');
+    const db = new Database(file);
+    db.exec(fixtureSql());
+    db.close();
+    const dataSource = new SQLiteDataSource(file);
+
+    try {
+      const batches: number[][] = [];
+      const count = await dataSource.streamReadOnly('SELECT trip_id FROM trips ORDER BY trip_id', [], limits, 5, async rows => {
+        batches.push(rows.map(row => row.trip_id));
+        expect((await dataSource.executeReadOnly('SELECT COUNT(*) AS count FROM trips', [], limits)).rows).toEqual([{ count: 17 }]);
+      });
+      expect(count).toBe(17);
+      expect(batches.map(batch => batch.length)).toEqual([5, 5, 5, 2]);
+      expect(batches.flat()).toEqual(Array.from({ length: 17 }, (_, i) => i + 1));
+
+      // A consumer that gives up ends the stream
+      await expect(dataSource.streamReadOnly('SELECT trip_id FROM trips', [], limits, 5, () => {
+        throw new Error('Client went away');
+      })).rejects.toThrow('Client went away');
+      await expect(dataSource.streamReadOnly('DELETE FROM trips', [], limits, 5, () => undefined))
+        .rejects.toMatchObject({ code: 'READ_ONLY_VIOLATION' });
+    } finally {
+      await dataSource.close();
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('serves the API from an injected data source', async () => {
+    const queryService = new QueryService(new FixtureDatabase());
+    try {
+      const response = await request(createApp(queryService, { allowAnonymous: true }))
+        .post('/query')
+        .send({ question: 'What was the average ride time for journeys that started at Congress Avenue in June 2025?' })
+        .expect(200);
+      expect(response.body).toMatchObject({ result: 25, unit: 'minutes', error: null });
+
+      const status = await request(createApp(queryService, { allowAnonymous: true })).get('/health').expect(200);
+      expect(status.body.schema.tables).toBe(3);
+    } finally {
+      await queryService.close();
+    }
+  });
+});
+
+describe('Ingestion', () => {
+  let directory: string;
+  const source = (kind: IngestKind, name: string, csv: string) => ({ kind, name, records: readCsv(csv) });
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('reads quoted CSV fields', async () => {
+    const records: Record<string, string>[] = [];
+    for await (const record of readCsv('\uFEFFid,name\r\n1,"Zilker Park, South"\r\n2,"The ""Drag"""\n\n3,"Two\nlines"')) {
+      records.push(record);
+    }
+    expect(records).toEqual([
+      { id: '1', name: 'Zilker Park, South' },
+      { id: '2', name: 'The "Drag"' },
+      { id: '3', name: 'Two\nlines' }
+    ]);
+  });
+
+  testSqlite('maps, validates and loads trip, station and weather files', async () => {
+    const dataSource = new SQLiteDataSource(path.join(directory, 'bikes.db'), { writable: true });
+    const queryService = new QueryService(dataSource);
+    const files = () => [
+      source('trips', 'divvy.csv',
+        'ride_id,started_at,ended_at,start_station_name,start_station_id,end_station_name,end_station_id,start_lat,start_lng,end_lat,end_lng\n' +
+        'A1,2025-06-01 08:10:00,2025-06-01 08:30:00,Congress Avenue,1,Zilker Park,TA13,30.2672,-97.7431,30.2669,-97.7729\n' +
+        'A2,2025-06-02 09:00:00,2025-06-02 08:00:00,Congress Avenue,1,Zilker Park,TA13,,,,\n'),
+      source('stations', 'stations.csv', 'Station ID,Name\n1,Congress Avenue\n2,Lamar Boulevard\nx,\n'),
+      source('weather', 'weather.csv', 'DATE,PRCP_IN\n2025-06-01,0.5\n06/02/2025,0\n2025-02-30,1\n')
+    ];
+
+    try {
+      const report = await queryService.ingest(files());
+      expect(report.sources.map(s => [s.source, s.accepted, s.rejected])).toEqual([['stations.csv', 2, 1], ['weather.csv', 2, 1], ['divvy.csv', 1, 1]]);
+      expect(report.sources[0].columns).toEqual({ station_id: 'Station ID', station_name: 'Name' });
+      expect(report.inserted).toEqual({ stations: 3, daily_weather: 2, trips: 1 });
+      expect(report.rejectedRows).toEqual([
+        { source: 'stations.csv', row: 3, reason: 'station_id: expected an integer or a station_name, got "x"' },
+        { source: 'weather.csv', row: 3, reason: 'weather_date: expected a date, got "2025-02-30"' },
+        { source: 'divvy.csv', row: 2, reason: 'ended_at is before started_at' }
+      ]);
+      expect(report.schema.changed).toBe(true);
+      expect(queryService.getSchemaStatus().tables).toBe(3);
+
+      // Zilker Park's code is not an integer, so it is numbered after the listed stations
+      expect(await dataSource.executeQuery('SELECT * FROM trips')).toEqual([{
+        trip_id: 1,
+        started_at: '2025-06-01 08:10:00',
+        ended_at: '2025-06-01 08:30:00',
+        start_station_id: 1,
+        end_station_id: 3,
+        trip_distance_km: 2.86,
+        rider_gender: null,
+        user_id: null
+      }]);
+      expect(await dataSource.executeQuery('SELECT * FROM daily_weather ORDER BY weather_date'))
+        .toEqual([{ weather_date: '2025-06-01', precipitation_mm: 12.7 }, { weather_date: '2025-06-02', precipitation_mm: 0 }]);
+
+      // Stations and days are keyed and trips without ids matched on their times and stations,
+      // so loading the files again adds nothing
+      expect((await queryService.ingest(files())).inserted).toEqual({ stations: 0, daily_weather: 0, trips: 0 });
+      await expect(queryService.ingest([source('trips', 'bad.csv', 'ride_id,start_station_id\nA1,1\n')]))
+        .rejects.toThrow('bad.csv: no column for started_at');
+    } finally {
+      await queryService.close();
+    }
+  });
+
+  testSqlite('gives GBFS station ids that are not integers an id of their own', async () => {
+    const dataSource = new SQLiteDataSource(path.join(directory, 'gbfs.db'), { writable: true });
+    const queryService = new QueryService(dataSource);
+    const files = () => [
+      { kind: 'stations' as IngestKind, name: 'station_information.json', records: readGbfsStations({
+        data: { stations: [{ station_id: 'a1b2', name: 'Congress Avenue' }, { station_id: 'c3d4', name: 'Zilker Park' }] }
+      }) },
+      source('trips', 'trips.csv', 'started_at,ended_at,start_station_id,end_station_id\n2025-06-01 08:10:00,2025-06-01 08:30:00,a1b2,c3d4\n')
+    ];
+
+    try {
+      const report = await queryService.ingest(files());
+      expect(report.rejectedRows).toEqual([]);
+      expect(report.inserted).toEqual({ stations: 2, daily_weather: 0, trips: 1 });
+      expect(await dataSource.executeQuery('SELECT station_id, station_name FROM stations ORDER BY station_id'))
+        .toEqual([{ station_id: 1, station_name: 'Congress Avenue' }, { station_id: 2, station_name: 'Zilker Park' }]);
+      expect(await dataSource.executeQuery('SELECT start_station_id, end_station_id FROM trips'))
+        .toEqual([{ start_station_id: 1, end_station_id: 2 }]);
+
+      expect((await queryService.ingest(files())).inserted).toEqual({ stations: 0, daily_weather: 0, trips: 0 });
+    } finally {
+      await queryService.close();
+    }
+  });
+
+  testSqlite('leaves nothing of a file that fails partway', async () => {
+    const dataSource = new SQLiteDataSource(path.join(directory, 'partial.db'), { writable: true });
+    const queryService = new QueryService(dataSource);
+    // More rows than one batch, so some are written before the file breaks off
+    async function* brokenFile() {
+      for (let minute = 0; minute < 600; minute++) {
+        const time = `2025-06-01 ${String(8 + Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}:00`;
+        yield { started_at: time, ended_at: time, start_station_name: 'Congress Avenue' };
+      }
+      throw new Error('Connection reset');
+    }
+
+    try {
+      await expect(queryService.ingest([{ kind: 'trips', name: 'trips.csv', records: brokenFile() }])).rejects.toThrow('Connection reset');
+      expect(await dataSource.executeQuery('SELECT COUNT(*) AS count FROM trips')).toEqual([{ count: 0 }]);
+      expect(await dataSource.executeQuery('SELECT COUNT(*) AS count FROM stations')).toEqual([{ count: 0 }]);
+    } finally {
+      await queryService.close();
+    }
+  });
+
+  testSqlite('loads uploads through /admin/ingest', async () => {
+    const previousToken = process.env.ADMIN_TOKEN;
+    process.env.ADMIN_TOKEN = 'secret';
+    const file = path.join(directory, 'uploads.db');
+    const writable = new QueryService(new SQLiteDataSource(file, { writable: true }));
+    const readOnly = new QueryService(new SQLiteDataSource(file));
+    const upload = (queryService: QueryService, kind: string) => request(createApp(queryService, { allowAnonymous: true }))
+      .post(`/admin/ingest?kind=${kind}&name=stations.csv`)
+      .set('Authorization', 'Bearer secret')
+      .set('Content-Type', 'text/csv')
+      .send('station_id,station_name\n1,Congress Avenue\n');
+
+    try {
+      const response = await upload(writable, 'stations').expect(200);
+      expect(response.body.sources[0]).toMatchObject({ source: 'stations.csv', accepted: 1 });
+      expect(response.body.inserted.stations).toBe(1);
+
+      await upload(writable, 'bikes').expect(400);
+      await upload(readOnly, 'stations').expect(409);
+      await request(createApp(writable, { allowAnonymous: true }))
+        .post('/admin/ingest?kind=stations')
+        .set('Authorization', 'Bearer secret')
+        .set('Content-Type', 'text/csv')
+        .send('station_id,station_name\n' + '1,Congress Avenue\n'.repeat(600000))
+        .expect(413);
+    } finally {
+      process.env.ADMIN_TOKEN = previousToken;
+      await writable.close();
+      await readOnly.close();
+    }
+  });
+});
+
+describe('SQL Dialects', () => {
+  const plan: QueryPlan = {
+    intent: QueryIntent.AVERAGE,
+    from: { table: 'trips', alias: 'trips' },
+    measures: [{
+      alias: 'average_minutes',
+      aggregate: 'avg',
+      expression: { kind: 'duration_minutes', start: column('trips', 'started_at'), end: column('trips', 'ended_at') },
+      precision: 1
+    }],
+    dimensions: [{ alias: 'hour', expression: { kind: 'date_part', part: 'hour', of: column('trips', 'started_at') } }],
+    filters: [
+      { kind: 'range', field: 'date', expression: column('trips', 'started_at'), from: '2025-06-01 00:00:00', to: '2025-06-30 23:59:59', cast: 'timestamp' },
+      { kind: 'comparison', field: 'station', expression: column('trips', 'rider_gender'), operator: 'ILIKE', value: 'f%' }
+    ],
+    joins: [],
+    orderBy: [],
+    limit: 5
+  };
+  const render = (name: string) => new SQLRenderer(findDialect(name)!).render(plan).sql;
+
+  test('renders a plan in each dialect', () => {
+    expect(render('postgres')).toBe(
+      'SELECT EXTRACT(HOUR FROM trips.started_at) as hour, ROUND(AVG(EXTRACT(EPOCH FROM (trips.ended_at - trips.started_at))/60)::numeric, 1) as average_minutes ' +
+      'FROM trips WHERE trips.started_at >= $1::timestamp AND trips.started_at < $2::timestamp AND trips.rider_gender ILIKE $3 ' +
+      'GROUP BY EXTRACT(HOUR FROM trips.started_at) LIMIT 5'
+    );
+    expect(render('duckdb')).toContain("ROUND(AVG(date_diff('second', trips.started_at, trips.ended_at) / 60.0), 1)");
+    expect(render('sqlite')).toBe(
+      "SELECT CAST(strftime('%H', trips.started_at) AS INTEGER) as hour, ROUND(AVG((julianday(trips.ended_at) - julianday(trips.started_at)) * 1440), 1) as average_minutes " +
+      'FROM trips WHERE trips.started_at >= datetime(?) AND trips.started_at < datetime(?) AND trips.rider_gender LIKE ? ' +
+      "GROUP BY CAST(strftime('%H', trips.started_at) AS INTEGER) LIMIT 5"
+    );
+    expect(findDialect('oracle')).toBeNull();
+  });
+
+  test('validates the functions and placeholders of each dialect', () => {
+    const sql = "SELECT strftime('%H', started_at) FROM trips WHERE rider_gender = ?";
+    expect(() => new SQLValidator(FIXTURE_SCHEMA, { functions: findDialect('sqlite')!.functions }).validate(sql)).not.toThrow();
+    expect(() => new SQLValidator(FIXTURE_SCHEMA).validate(sql)).toThrow('Function strftime is not allowed');
+  });
+
+  describe('local files', () => {
+    let directory: string;
+    const limits = { statementTimeoutMs: 5000, maxRows: 2 };
+
+    beforeAll(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'dialects-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    const expectFixtureAnswers = async (dataSource: DataSource) => {
+      try {
+        const trips = (await dataSource.getSchema()).find(table => table.table_name === 'trips')!;
+        expect(trips.primary_key).toEqual(['trip_id']);
+        expect(trips.foreign_keys!.map(fk => fk.columns[0]).sort()).toEqual(['end_station_id', 'start_station_id']);
+
+        const { evaluator } = await createFixtureEvaluator(undefined, dataSource);
+        const report = await evaluator.run(loadGoldenCases());
+        expect(report.results.filter(result => !result.passed)).toEqual([]);
+
+        const result = await dataSource.executeReadOnly('SELECT trip_id FROM trips ORDER BY trip_id', [], limits);
+        expect(result).toMatchObject({ rows: [{ trip_id: 1 }, { trip_id: 2 }], truncated: true, totalCount: 17 });
+        await expect(dataSource.executeReadOnly('DELETE FROM trips', [], limits)).rejects.toMatchObject({ code: 'READ_ONLY_VIOLATION' });
+        expect((await dataSource.explain('SELECT * FROM trips', [], limits)).length).toBeGreaterThan(0);
+      } finally {
+        await dataSource.close();
+      }
+    };
+
+    testSqlite('answers the golden questions from a SQLite file', async () => {
+      const file = path.join(directory, 'fixture.db');
+      const db = new Database(file);
+      db.exec(fixtureSql());
+      db.close();
+
+      const dataSource = createDataSource({ url: `sqlite:${file}` });
+      expect(dataSource).toBeInstanceOf(SQLiteDataSource);
+      await expectFixtureAnswers(dataSource);
+    });
+
+    testDuckdb('answers the golden questions from a DuckDB file', async () => {
+      const file = path.join(directory, 'fixture.duckdb');
+      const instance = await DuckDBInstance.create(file);
+      const connection = await instance.connect();
+      await connection.run(fixtureSql());
+      connection.closeSync();
+      instance.closeSync();
+
+      const dataSource = createDataSource({ url: `duckdb:${file}` });
+      expect(dataSource).toBeInstanceOf(DuckDBDataSource);
+      await expectFixtureAnswers(dataSource);
+    });
+  });
+});
+
+describe('API keys', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'keys-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('keeps only hashes and picks up changes to the file', () => {
+    const file = path.join(directory, 'stored.json');
+    const store = new ApiKeyStore(file);
+    expect(store.list()).toEqual([]);
+
+    const { key, apiKey } = store.create('analytics', { ratePerMinute: 10 });
+    expect(apiKey).toMatchObject({ name: 'analytics', hash: hashApiKey(key), ratePerMinute: 10, dailyQuota: DEFAULT_DAILY_QUOTA });
+    expect(fs.readFileSync(file, 'utf8')).not.toContain(key);
+    expect(store.verify(key)).toEqual(apiKey);
+    expect(store.verify(key + 'x')).toBeNull();
+
+    // Another process, such as `npm run keys`, revokes it
+    expect(new ApiKeyStore(file).revoke('analytics')).toBe(true);
+    expect(store.verify(key)).toBeNull();
+    expect(store.revoke(apiKey.id)).toBe(false);
+  });
+
+  test('limits queries per minute and per UTC day', () => {
+    let now = Date.parse('2025-07-01T23:57:00Z');
+    const limiter = new RateLimiter({ now: () => now });
+    const apiKey = { ...new ApiKeyStore(path.join(directory, 'limits.json')).create('batch').apiKey, ratePerMinute: 2, dailyQuota: 3 };
+
+    expect(limiter.take(apiKey)).toEqual({ allowed: true, remainingToday: 2 });
+    now += 20 * 1000;
+    expect(limiter.take(apiKey)).toEqual({ allowed: true, remainingToday: 1 });
+    expect(limiter.take(apiKey)).toEqual({ allowed: false, reason: 'rate', retryAfterSeconds: 40 });
+
+    now += 40 * 1000;
+    expect(limiter.take(apiKey)).toEqual({ allowed: true, remainingToday: 0 });
+    now += 60 * 1000;
+    expect(limiter.take(apiKey)).toEqual({ allowed: false, reason: 'quota', retryAfterSeconds: 60 });
+
+    // Refused requests are not counted, and the quota starts over at midnight UTC
+    now += 60 * 1000;
+    expect(limiter.take(apiKey)).toEqual({ allowed: true, remainingToday: 2 });
+  });
+
+  test('answers 401 without a valid key and 429 over its limits', async () => {
+    const apiKeys = new ApiKeyStore(path.join(directory, 'server.json'));
+    const { key } = apiKeys.create('dashboard', { ratePerMinute: 2 });
+    const { key: revoked } = apiKeys.create('former');
+    apiKeys.revoke('former');
+    const queryService = new QueryService(new FixtureDatabase());
+    const app = createApp(queryService, { apiKeys });
+    const ask = () => request(app).post('/query').send({ question: 'How many trips were there in June 2025?' });
+
+    try {
+      const missing = await ask().expect(401);
+      expect(missing.headers['www-authenticate']).toBe('Bearer realm="query"');
+      expect(missing.body.error).toMatch(/API key is required/);
+      await ask().set('Authorization', `Bearer ${revoked}`).expect(401, { error: 'Invalid or revoked API key' });
+      await request(app).get('/query/unknown/export').expect(401);
+
+      const accepted = await ask().set('Authorization', `Bearer ${key}`).expect(200);
+      expect(accepted.headers['x-quota-remaining']).toBe(String(DEFAULT_DAILY_QUOTA - 1));
+      await ask().set('X-API-Key', key).expect(200);
+
+      const limited = await ask().set('X-API-Key', key).expect(429);
+      expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+      expect(limited.body.error).toBe('This key is limited to 2 queries per minute');
+
+      // The UI and health check stay open
+      await request(app).get('/health').expect(200);
+    } finally {
+      await queryService.close();
+    }
+  });
+
+  test('refuses queries without keys unless anonymous ones are allowed', async () => {
+    expect(appOptionsFromEnv({})).toEqual({ allowAnonymous: false });
+    expect(appOptionsFromEnv({ ALLOW_ANONYMOUS_QUERIES: 'true' })).toEqual({ allowAnonymous: true });
+    expect(appOptionsFromEnv({ API_KEYS_PATH: path.join(directory, 'env.json') }).apiKeys).toBeInstanceOf(ApiKeyStore);
+
+    const queryService = new QueryService(new FixtureDatabase());
+    try {
+      const response = await request(createApp(queryService)).post('/query').send({ question: 'How many trips were there?' }).expect(503);
+      expect(response.body.error).toMatch(/ALLOW_ANONYMOUS_QUERIES/);
+      await request(createApp(queryService)).get('/health').expect(200);
+    } finally {
+      await queryService.close();
+    }
+  });
+
+  test('answers 503 while the keys file is malformed', async () => {
+    const file = path.join(directory, 'malformed.json');
+    const apiKeys = new ApiKeyStore(file);
+    const { key } = apiKeys.create('dashboard');
+    const queryService = new QueryService(new FixtureDatabase());
+    const ask = () => request(createApp(queryService, { apiKeys })).post('/query').set('X-API-Key', key).send({ question: 'How many trips were there?' });
+
+    try {
+      const saved = fs.readFileSync(file, 'utf8');
+      fs.writeFileSync(file, '{"keys": [');
+      await ask().expect(503, { error: 'API keys are unavailable, try again later' });
+
+      // Fixed in place, the same key works again
+      fs.writeFileSync(file, saved);
+      await ask().expect(200);
+    } finally {
+      await queryService.close();
+    }
+  });
+
+  test('builds the app over a malformed keys file', async () => {
+    const file = path.join(directory, 'broken.json');
+    fs.writeFileSync(file, '{bad');
+    const queryService = new QueryService(new FixtureDatabase());
+
+    try {
+      const apiKeys = new ApiKeyStore(file);
+      expect(() => apiKeys.verify('bsa_anything')).toThrow(SyntaxError);
+
+      const app = createApp(queryService, appOptionsFromEnv({ API_KEYS_PATH: file }));
+      await request(app).post('/query').set('X-API-Key', 'bsa_anything').send({ question: 'How many trips were there?' }).expect(503);
+    } finally {
+      await queryService.close();
+    }
+  });
+});
+
+describe('SQLRenderer', () => {
+  const renderer = new SQLRenderer();
+
+  const basePlan: QueryPlan = {
+    intent: QueryIntent.COUNT,
+    from: { table: 'trips', alias: 'trips' },
+    measures: [{ alias: 'count', aggregate: 'count', expression: null }],
+    dimensions: [],
+    filters: [],
+    joins: [],
+    orderBy: [],
+    limit: null
+  };
+
+  test('renders an empty plan as SELECT *', () => {
+    const { sql, params } = renderer.render({ ...basePlan, measures: [] });
+    expect(sql).toBe('SELECT * FROM trips');
+    expect(params).toEqual([]);
+  });
+
+  test('numbers parameters across nested filters', () => {
+    const { sql, params } = renderer.render({
+      ...basePlan,
+      filters: [
+        {
+          kind: 'any',
+          field: 'date',
+          filters: [
+            { kind: 'range', field: 'date', expression: column('trips', 'started_at'), from: '2025-06-07', to: '2025-06-08', cast: 'timestamp' },
+            { kind: 'range', field: 'date', expression: column('trips', 'started_at'), from: '2025-06-14', to: '2025-06-15', cast: 'timestamp' }
+          ]
+        },
+        { kind: 'comparison', field: 'rider_gender', expression: column('trips', 'rider_gender'), operator: '=', value: 'female' }
+      ]
+    });
+
+    expect(sql).toBe(
+      'SELECT COUNT(*) as count FROM trips WHERE ' +
+      '((trips.started_at >= $1::timestamp AND trips.started_at <= $2::timestamp) OR ' +
+      '(trips.started_at >= $3::timestamp AND trips.started_at <= $4::timestamp)) AND trips.rider_gender = $5'
+    );
+    expect(params).toEqual(['2025-06-07', '2025-06-08', '2025-06-14', '2025-06-15', 'female']);
+  });
+
+  test('counts trips started in the last fraction of a second of a range', async () => {
+    const queryService = new QueryService(new MemoryDataSource(FIXTURE_SCHEMA, `
+      INSERT INTO trips (trip_id, started_at, ended_at) VALUES
+        (1, '2025-06-30 23:59:59.5', '2025-07-01 00:20:00'), (2, '2025-07-01 00:00:00', '2025-07-01 00:20:00');
+    `));
+    try {
+      const response = await queryService.processQuery('How many trips were there in June 2025?');
+      expect(response.sql).toContain('trips.started_at < $2::timestamp');
+      expect(response.result).toBe(1);
+    } finally {
+      await queryService.close();
+    }
+  });
+
+  test('groups dimensions only alongside measures', () => {
+    const dimensions = [{ alias: 'station_name', expression: column('stations', 'station_name') }];
+    expect(renderer.render({ ...basePlan, dimensions }).sql).toContain('GROUP BY stations.station_name');
+    expect(renderer.render({ ...basePlan, measures: [], dimensions }).sql).not.toContain('GROUP BY');
+  });
+});
+
+describe('Semantic Model', () => {
+  test('loads and validates the bundled model', () => {
+    const model = loadSemanticModel();
+    expect(model.version).toBe(1);
+    expect(Object.keys(model.metrics)).toEqual(expect.arrayContaining(['trip_count', 'ride_duration_minutes', 'distance_km']));
+    expect(Object.keys(model.dimensions)).toEqual(expect.arrayContaining(['station', 'gender', 'weather', 'hour']));
+  });
+
+  test('rejects unsupported versions and malformed expressions', () => {
+    const model = loadSemanticModel();
+    expect(() => validateSemanticModel({ ...model, version: 99 })).toThrow('unsupported version');
+    expect(() => validateSemanticModel({
+      ...model,
+      metrics: { broken: { aggregate: 'sum', expression: 'not a column', synonyms: [] } }
+    })).toThrow('metric broken');
+    expect(() => validateSemanticModel({ ...model, time_column: 'started_at' })).toThrow('time_column');
+  });
+
+  test('filters dates on the time column of the model', () => {
+    const semanticMapper = new SemanticMapper({ ...loadSemanticModel(), time_column: 'trips.ended_at' });
+    semanticMapper.setSchema([]);
+
+    const { sql } = new SQLGenerator(semanticMapper).generateSQL('How many trips in June 2025?');
+    expect(sql).toContain('trips.ended_at >= $1::timestamp AND trips.ended_at < $2::timestamp');
+    expect(sql).not.toContain('started_at');
+  });
+
+  test('plans metrics added to the model without code changes', () => {
+    const model = loadSemanticModel();
+    const semanticMapper = new SemanticMapper({
+      ...model,
+      metrics: {
+        ...model.metrics,
+        revenue_per_ride: {
+          aggregate: null,
+          expression: { sql: 'SUM(trips.price) / NULLIF(COUNT(*), 0)', tables: ['trips'] },
+          precision: 2,
+          synonyms: ['revenue per ride']
+        }
+      }
+    });
+    semanticMapper.setSchema([]);
+
+    const { sql } = new SQLGenerator(semanticMapper).generateSQL('What was the average revenue per ride in June 2025?');
+    expect(sql).toContain('SELECT ROUND((SUM(trips.price) / NULLIF(COUNT(*), 0))::numeric, 2) as revenue_per_ride FROM trips');
+  });
+
+  test('reads synonyms from the model', () => {
+    const semanticMapper = new SemanticMapper();
+    expect(semanticMapper.findSegments('trips by women on rainy days').map(m => m.name)).toEqual(['women', 'rainy']);
+    expect(semanticMapper.findDimensions('Which docking point was busiest?')[0].name).toBe('station');
+  });
+});
+
+describe('JoinGraph', () => {
+  const col = (table: string, name: string, type: string = 'integer') =>
+    ({ table_name: table, column_name: name, data_type: type, is_nullable: 'YES', column_default: null });
+
+  const schema: TableInfo[] = [
+    {
+      table_name: 'trips',
+      columns: [col('trips', 'trip_id'), col('trips', 'start_station_id'), col('trips', 'end_station_id'), col('trips', 'bike_id'), col('trips', 'user_id')],
+      primary_key: ['trip_id'],
+      foreign_keys: [
+        { constraint_name: 'trips_bike_id_fkey', columns: ['bike_id'], foreign_table: 'bikes', foreign_columns: ['bike_id'] },
+        { constraint_name: 'trips_end_station_id_fkey', columns: ['end_station_id'], foreign_table: 'stations', foreign_columns: ['station_id'] },
+        { constraint_name: 'trips_start_station_id_fkey', columns: ['start_station_id'], foreign_table: 'stations', foreign_columns: ['station_id'] },
+        { constraint_name: 'trips_user_id_fkey', columns: ['user_id'], foreign_table: 'users', foreign_columns: ['id'] }
+      ]
+    },
+    { table_name: 'stations', columns: [col('stations', 'station_id'), col('stations', 'station_name', 'text')], primary_key: ['station_id'] },
+    {
+      table_name: 'bikes',
+      columns: [col('bikes', 'bike_id'), col('bikes', 'model_id')],
+      primary_key: ['bike_id'],
+      foreign_keys: [{ constraint_name: 'bikes_model_id_fkey', columns: ['model_id'], foreign_table: 'bike_models', foreign_columns: ['model_id'] }]
+    },
+    { table_name: 'bike_models', columns: [col('bike_models', 'model_id'), col('bike_models', 'model_name', 'text')], primary_key: ['model_id'], unique_constraints: [['model_name']] },
+    { table_name: 'users', columns: [col('users', 'id')], primary_key: ['id'] }
+  ];
+
+  test('derives station roles from foreign key columns', () => {
+    const graph = new JoinGraph(schema);
+    expect(graph.rolesOf('stations').sort()).toEqual(['end', 'start']);
+    expect(graph.rolesOf('users')).toEqual([]);
+    expect(graph.resolveAlias('end_stations')).toEqual({ table: 'stations', role: 'end' });
+  });
+
+  test('finds the shortest multi-hop path', () => {
+    const graph = new JoinGraph(schema);
+    const path = graph.findPath('trips', 'bike_models')!;
+    expect(path.map(edge => edge.to)).toEqual(['bikes', 'bike_models']);
+    expect(graph.findPath('bike_models', 'unknown')).toBeNull();
+  });
+
+  test('joins the requested role under its alias', () => {
+    const graph = new JoinGraph(schema);
+    const [join] = graph.toJoins(graph.findPath('trips', 'stations', 'end')!, 'trips');
+    expect(join.alias).toBe('end_stations');
+    expect(join.on).toEqual([{ left: column('trips', 'end_station_id'), right: column('end_stations', 'station_id') }]);
+  });
+
+  test('merges declared joins with matching foreign keys', () => {
+    const model = loadSemanticModel();
+    const graph = new JoinGraph(schema, model.joins, model.fact_table);
+    expect(graph.getEdges().filter(edge => edge.to === 'stations')).toHaveLength(2);
+    expect(graph.findPath('trips', 'daily_weather')!.map(edge => edge.to)).toEqual(['daily_weather']);
+  });
+
+  test('plans joins from introspected foreign keys', () => {
+    const semanticMapper = new SemanticMapper();
+    semanticMapper.setSchema(schema);
+    const planner = new QueryPlanner(semanticMapper, new DateParser());
+
+    const plan = planner.buildPlan('How many trips were made?');
+    const { sql } = new SQLRenderer().render(planner.resolveJoins({
+      ...plan,
+      dimensions: [{ alias: 'model_name', expression: column('bike_models', 'model_name') }]
+    }));
+    expect(sql).toContain('LEFT JOIN bikes ON trips.bike_id = bikes.bike_id LEFT JOIN bike_models ON bikes.model_id = bike_models.model_id');
+  });
+});
+
+describeSqlite('Explain', () => {
+  const question = 'What was the average ride time for journeys that started at Congress Avenue in June 2025?';
+  let directory: string;
+  let queryService: QueryService;
+
+  // SQLite, as pg-mem has no EXPLAIN
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'explain-'));
+    const db = new Database(path.join(directory, 'fixture.db'));
+    db.exec(fixtureSql());
+    db.close();
+    queryService = new QueryService(new SQLiteDataSource(path.join(directory, 'fixture.db')));
+  });
+
+  afterAll(async () => {
+    await queryService.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('shows how a question was read and would run', async () => {
+    const explanation = await queryService.explainQuery(question);
+    expect(explanation).toMatchObject({ result: null, error: null, strategy: 'rules' });
+    expect(explanation.sql).toContain('WHERE trips.started_at >= datetime(?) AND trips.started_at < datetime(?) AND start_stations.station_name = ?');
+
+    const { interpretation } = explanation;
+    expect(interpretation.intent).toBe(QueryIntent.AVERAGE);
+    expect(interpretation.userWords).toEqual(expect.arrayContaining(['ride', 'time', 'congress', 'avenue']));
+    expect(interpretation.columnMappings.length).toBeGreaterThan(0);
+    expect(interpretation.filters.map(f => f.field)).toEqual(['date', 'start_station']);
+    expect(interpretation.dateRanges).toEqual([{ from: '2025-06-01 00:00:00', to: '2025-06-30 23:59:59' }]);
+    expect(interpretation.joins.map(j => j.alias)).toEqual(['start_stations']);
+    expect(explanation.queryPlan).toContain('SCAN trips');
+  });
+
+  test('explains questions and earlier answers over /query/explain', async () => {
+    const app = createApp(queryService, { allowAnonymous: true });
+
+    const explained = await request(app).post('/query/explain').send({ question }).expect(200);
+    expect(explained.body.interpretation.intent).toBe('average');
+    expect(explained.body.queryPlan).toContain('SCAN trips');
+    await request(app).post('/query/explain').send({}).expect(400);
+
+    // An answer is explained with the SQL it ran, by its queryId
+    const answered = await request(app).post('/query').send({ question: 'How many trips were there in June 2025?' }).expect(200);
+    const byId = await request(app).post('/query/explain').send({ queryId: answered.body.queryId }).expect(200);
+    expect(byId.body).toMatchObject({ sql: answered.body.sql, error: null });
+    expect(byId.body.interpretation.dateRanges).toEqual([{ from: '2025-06-01 00:00:00', to: '2025-06-30 23:59:59' }]);
+    expect(byId.body.queryPlan.length).toBeGreaterThan(0);
+
+    await request(app).post('/query/explain').send({ queryId: 'unknown' })
+      .expect(404, { error: 'Unknown or expired queryId, ask the question again' });
+    await request(app).post('/query/explain').send({ queryId: 42 }).expect(404);
+  });
+});
+
+describe('QueryService Integration', () => {
+  let queryService: QueryService;
+
+  beforeEach(() => {
+    queryService = new QueryService();
+  });
+
+  afterEach(async () => {
+    await queryService.close();
+  });
+
+  describe('Error Handling', () => {
+    test('handles empty questions gracefully', async () => {
+      const response = await queryService.processQuery('');
+      expect(response.error).toBeTruthy();
+      expect(response.result).toBeNull();
+    });
+
+    test('handles invalid questions gracefully', async () => {
+      const response = await queryService.processQuery('abcdefghijklmnopqrstuvwxyz');
+      // Should not crash, should return some response
+      expect(response).toHaveProperty('sql');
+      expect(response).toHaveProperty('result');
+      expect(response).toHaveProperty('error');
+    });
+
+    test('explains what it read from questions it cannot answer', async () => {
+      const explanation = await queryService.explainQuery('');
+      expect(explanation.error).toBeTruthy();
+      expect(explanation.interpretation).toMatchObject({ userWords: [], filters: [], dateRanges: [], joins: [] });
+      expect(explanation.queryPlan).toBeUndefined();
     });
   });
 